@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { Button, Select, Space, Typography, Upload, message } from "antd";
+import { PaperClipOutlined, UploadOutlined } from "@ant-design/icons";
+import {
+  getFileChoice,
+  getStoredFiles,
+  saveFileChoice,
+  StoredFile,
+  StoredFileKind,
+  storeFile,
+} from "@/utils/fileUtil";
+
+const { Text } = Typography;
+
+/** Value of the option that attaches nothing */
+const NO_FILE = "none";
+
+/** Labels of the documents that can be attached */
+const kindLabels: Record<StoredFileKind, string> = {
+  [StoredFileKind.Resume]: "Resume",
+  [StoredFileKind.CoverLetter]: "Cover letter",
+};
+
+interface FilePickerProps {
+  /** The application the choice is saved for, see `getApplicationUrl` */
+  applicationUrl: string;
+  darkMode: boolean;
+  /** Changes whenever a file was stored elsewhere, to reload the lists */
+  refreshKey?: number;
+}
+
+export const FilePicker = ({
+  applicationUrl,
+  darkMode,
+  refreshKey,
+}: FilePickerProps) => {
+  const [files, setFiles] = useState<StoredFile[]>([]);
+  const [choice, setChoice] = useState<
+    Partial<Record<StoredFileKind, string | null>>
+  >({});
+
+  const loadFiles = async () => {
+    setFiles(await getStoredFiles());
+    setChoice(await getFileChoice(applicationUrl));
+  };
+
+  useEffect(() => {
+    loadFiles();
+  }, [applicationUrl, refreshKey]);
+
+  const handleChoiceChange = async (kind: StoredFileKind, value: string) => {
+    const fileId = value === NO_FILE ? null : value;
+    setChoice({ ...choice, [kind]: fileId });
+    await saveFileChoice(applicationUrl, kind, fileId);
+  };
+
+  const handleUpload = async (kind: StoredFileKind, file: File) => {
+    try {
+      const storedFile = await storeFile(file, kind);
+      await saveFileChoice(applicationUrl, kind, storedFile.id);
+      await loadFiles();
+      message.success(`${kindLabels[kind]} stored for upload`);
+    } catch (error) {
+      message.error("Failed to store the file.");
+    }
+  };
+
+  const renderKind = (kind: StoredFileKind) => {
+    const kindFiles = files.filter((file) => file.kind === kind);
+    // Without a choice the most recent file of the kind is attached
+    const selected =
+      choice[kind] === null ? NO_FILE : choice[kind] || kindFiles[0]?.id;
+
+    return (
+      <Space key={kind} style={{ width: "100%" }}>
+        <Select
+          style={{ width: 220 }}
+          size="small"
+          placeholder={`No ${kindLabels[kind].toLowerCase()} stored`}
+          value={kindFiles.length ? selected : undefined}
+          onChange={(value) => handleChoiceChange(kind, value)}
+          options={[
+            ...kindFiles.map((file) => ({ value: file.id, label: file.name })),
+            { value: NO_FILE, label: "Don't attach" },
+          ]}
+        />
+        <Upload
+          accept=".pdf,.docx,.doc,.txt"
+          showUploadList={false}
+          beforeUpload={(file) => {
+            handleUpload(kind, file);
+            return false;
+          }}
+        >
+          <Button size="small" icon={<UploadOutlined />}>
+            {kindLabels[kind]}
+          </Button>
+        </Upload>
+      </Space>
+    );
+  };
+
+  return (
+    <Space direction="vertical" size={8} style={{ width: "100%" }}>
+      <Text style={{ color: darkMode ? "#fff" : undefined }}>
+        <PaperClipOutlined /> Files to attach to this application
+      </Text>
+      {Object.values(StoredFileKind).map(renderKind)}
+    </Space>
+  );
+};
@@ -10,6 +10,9 @@ import {
   Space,
   Row,
   Col,
+  Button,
+  Alert,
+  Switch,
 } from "antd";
 import {
   HeartFilled,
@@ -17,9 +20,22 @@ import {
   ApiOutlined,
   LinkOutlined,
   PlusOutlined,
+  ThunderboltOutlined,
 } from "@ant-design/icons";
 import { saveData, getData } from "@/utils/storageUtil";
-import { LLM } from "@/utils/aiUtil";
+import {
+  ConnectionTestResult,
+  DEFAULT_RESUME_TOKEN_BUDGET,
+  defaultModels,
+  providerModels,
+  testConnection,
+} from "@/utils/aiUtil";
+import {
+  defaultBaseUrls,
+  LLMProvider,
+  modelListLabels,
+  providerLabels,
+} from "@/utils/providerUtil";
 
 import { motion } from "framer-motion";
 
@@ -27,11 +43,14 @@ const { Title, Paragraph } = Typography;
 const { Option } = Select;
 
 interface MenuSettings {
+  llmProvider: LLMProvider;
   llmModel: string;
   baseUrl: string;
   apiKey: string;
   temperature: number;
   maxTokens: number;
+  resumeTokenBudget: number;
+  batchMode: boolean;
 }
 
 interface CustomMenuProps {
@@ -41,30 +60,49 @@ interface CustomMenuProps {
 const CustomMenu: React.FC<CustomMenuProps> = ({ darkMode }) => {
   const [form] = Form.useForm();
   const [customLLM, setCustomLLM] = useState<string>("");
+  const [discoveredModels, setDiscoveredModels] = useState<string[]>([]);
+  const [testingConnection, setTestingConnection] = useState(false);
+  const [connectionResult, setConnectionResult] =
+    useState<ConnectionTestResult | null>(null);
   const [settings, setSettings] = useState<MenuSettings>({
-    llmModel: LLM.HermesLlama,
+    llmProvider: LLMProvider.OpenAICompatible,
+    llmModel: defaultModels[LLMProvider.OpenAICompatible],
     baseUrl: "http://127.0.0.1:1234/v1",
     apiKey: "lm-studio",
     temperature: 0.7,
     maxTokens: 2000,
+    resumeTokenBudget: DEFAULT_RESUME_TOKEN_BUDGET,
+    batchMode: false,
   });
 
   useEffect(() => {
     const loadSavedSettings = async () => {
+      const savedProvider = await getData("llmProvider");
       const savedLLM = await getData("llmModel");
       const savedBaseUrl = await getData("baseUrl");
       const savedApiKey = await getData("apiKey");
       const savedTemp = await getData("temperature");
       const savedMaxTokens = await getData("maxTokens");
+      const savedResumeTokenBudget = await getData("resumeTokenBudget");
+      const savedBatchMode = await getData("batchMode");
 
+      const llmProvider =
+        (savedProvider as LLMProvider) || settings.llmProvider;
       const newSettings = {
-        llmModel: savedLLM || settings.llmModel,
+        llmProvider,
+        llmModel: savedLLM || defaultModels[llmProvider],
         baseUrl: savedBaseUrl || settings.baseUrl,
         apiKey: savedApiKey || settings.apiKey,
         temperature: savedTemp ? parseFloat(savedTemp) : settings.temperature,
         maxTokens: savedMaxTokens
           ? parseInt(savedMaxTokens)
           : settings.maxTokens,
+        resumeTokenBudget: savedResumeTokenBudget
+          ? parseInt(savedResumeTokenBudget)
+          : settings.resumeTokenBudget,
+        batchMode: savedBatchMode
+          ? savedBatchMode === "true"
+          : settings.batchMode,
       };
 
       setSettings(newSettings);
@@ -75,6 +113,32 @@ const CustomMenu: React.FC<CustomMenuProps> = ({ darkMode }) => {
   }, []);
 
   const handleSettingsChange = async (changedValues: any, allValues: any) => {
+    // Switch to the new provider's default URL unless a custom one was entered
+    if (
+      changedValues.llmProvider &&
+      Object.values(defaultBaseUrls).includes(allValues.baseUrl)
+    ) {
+      const baseUrl = defaultBaseUrls[changedValues.llmProvider as LLMProvider];
+      form.setFieldsValue({ baseUrl });
+      allValues = { ...allValues, baseUrl };
+      changedValues = { ...changedValues, baseUrl };
+    }
+    // Likewise for its default model unless another one was picked
+    if (
+      changedValues.llmProvider &&
+      Object.values(defaultModels).includes(allValues.llmModel)
+    ) {
+      const llmModel = defaultModels[changedValues.llmProvider as LLMProvider];
+      form.setFieldsValue({ llmModel });
+      allValues = { ...allValues, llmModel };
+      changedValues = { ...changedValues, llmModel };
+    }
+
+    if (changedValues.llmProvider || changedValues.baseUrl) {
+      setDiscoveredModels([]);
+      setConnectionResult(null);
+    }
+
     const newSettings = { ...settings, ...allValues };
     setSettings(newSettings);
 
@@ -83,8 +147,72 @@ const CustomMenu: React.FC<CustomMenuProps> = ({ darkMode }) => {
     });
   };
 
+  const handleTestConnection = async () => {
+    setTestingConnection(true);
+    setConnectionResult(null);
+    try {
+      const result = await testConnection();
+      setConnectionResult(result);
+      if (result.models.length) {
+        setDiscoveredModels(result.models);
+      }
+    } finally {
+      setTestingConnection(false);
+    }
+  };
+
+  // Prefer the models the server reported over the static suggestions
+  const modelOptions = discoveredModels.length
+    ? discoveredModels
+    : providerModels[settings.llmProvider];
+
+  const renderConnectionResult = (result: ConnectionTestResult) => {
+    const { connected } = result;
+    const healthy = connected && result.modelLoaded && result.jsonRoundTrip;
+
+    return (
+      <Alert
+        style={{ marginBottom: 24 }}
+        showIcon
+        type={healthy ? "success" : connected ? "warning" : "error"}
+        message={
+          healthy
+            ? "Connection looks good"
+            : connected
+              ? "Connected, but the model needs attention"
+              : "Could not connect to the llm server"
+        }
+        description={
+          <>
+            {connected && (
+              <div>
+                {result.models.length} model(s){" "}
+                {modelListLabels[settings.llmProvider]}, listed in{" "}
+                {result.modelsLatencyMs} ms
+              </div>
+            )}
+            {connected && !result.modelLoaded && (
+              <div>
+                {settings.llmModel} is not{" "}
+                {modelListLabels[settings.llmProvider]}, pick one of the
+                discovered models
+              </div>
+            )}
+            {result.roundTripLatencyMs !== null && (
+              <div>
+                JSON round-trip {result.jsonRoundTrip ? "passed" : "failed"} in{" "}
+                {result.roundTripLatencyMs} ms
+              </div>
+            )}
+            {result.error && <div>{result.error}</div>}
+          </>
+        }
+      />
+    );
+  };
+
   const handleCustomLLMAdd = (value: string) => {
-    if (value && !Object.values(LLM).includes(value as LLM)) {
+    if (value && !modelOptions.includes(value)) {
       setCustomLLM(value);
       form.setFieldsValue({ llmModel: value });
       // persist custom LLM model as well
@@ -162,6 +290,17 @@ const CustomMenu: React.FC<CustomMenuProps> = ({ darkMode }) => {
             onValuesChange={handleSettingsChange}
             size="large"
           >
+            {/* LLM Provider */}
+            <Form.Item label="LLM Provider" name="llmProvider">
+              <Select placeholder="Select LLM Provider">
+                {Object.values(LLMProvider).map((provider) => (
+                  <Option key={provider} value={provider}>
+                    {providerLabels[provider]}
+                  </Option>
+                ))}
+              </Select>
+            </Form.Item>
+
             {/* LLM Model */}
             <Form.Item label="LLM Model" name="llmModel">
               <Select
@@ -181,8 +320,8 @@ const CustomMenu: React.FC<CustomMenuProps> = ({ darkMode }) => {
                   </>
                 )}
               >
-                {Object.entries(LLM).map(([key, value]) => (
-                  <Option key={key} value={value}>
+                {modelOptions.map((value) => (
+                  <Option key={value} value={value}>
                     {value}
                   </Option>
                 ))}
@@ -235,8 +374,39 @@ const CustomMenu: React.FC<CustomMenuProps> = ({ darkMode }) => {
                 </Form.Item>
               </Col>
             </Row>
+
+            {/* Resume Token Budget */}
+            <Form.Item
+              label="Resume token budget"
+              name="resumeTokenBudget"
+              tooltip="Longer resumes are cut down to the sections relevant to each question so they fit small context windows."
+            >
+              <Input type="number" min={100} max={32768} step={100} />
+            </Form.Item>
+
+            {/* Batch Mode */}
+            <Form.Item
+              label="Answer each step with one request"
+              name="batchMode"
+              valuePropName="checked"
+              tooltip="Collects every field on a step and asks the model once, then falls back to one request per field for anything it missed."
+            >
+              <Switch />
+            </Form.Item>
           </Form>
 
+          {/* Connection Test */}
+          <Button
+            block
+            icon={<ThunderboltOutlined />}
+            loading={testingConnection}
+            onClick={handleTestConnection}
+            style={{ marginBottom: 16 }}
+          >
+            Test connection
+          </Button>
+          {connectionResult && renderConnectionResult(connectionResult)}
+
           {/* Footer */}
           <a
             style={{
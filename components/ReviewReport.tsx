@@ -0,0 +1,93 @@
+import { Alert, Button, List, Space, Typography } from "antd";
+import { RollbackOutlined } from "@ant-design/icons";
+import { Discrepancy, DiscrepancyKind } from "@/utils/reviewUtil";
+import { getStepName } from "@/utils/progressUtils";
+
+const { Text } = Typography;
+
+/** How each kind of discrepancy is described */
+const kindLabels: Record<DiscrepancyKind, string> = {
+  [DiscrepancyKind.Missing]: "Missing answer",
+  [DiscrepancyKind.DateMismatch]: "Date differs",
+  [DiscrepancyKind.ValueMismatch]: "Different choice",
+  [DiscrepancyKind.ProfileMismatch]: "Not in your profile",
+};
+
+interface ReviewReportProps {
+  discrepancies: Discrepancy[];
+  darkMode: boolean;
+  /** Goes back to the step of a flagged answer */
+  onJump: (step: string) => void;
+  onClose: () => void;
+}
+
+export const ReviewReport = ({
+  discrepancies,
+  darkMode,
+  onJump,
+  onClose,
+}: ReviewReportProps) => {
+  if (!discrepancies.length) {
+    return (
+      <Alert
+        message="Review complete: every answer matches what was entered and your profile."
+        type="success"
+        showIcon
+        closable
+        onClose={onClose}
+      />
+    );
+  }
+
+  return (
+    <Space direction="vertical" size={8} style={{ width: "100%" }}>
+      <Alert
+        message={`${discrepancies.length} answers need your attention before submitting`}
+        type="warning"
+        showIcon
+        closable
+        onClose={onClose}
+      />
+      <List
+        size="small"
+        dataSource={discrepancies}
+        style={{ textAlign: "left" }}
+        renderItem={(discrepancy) => (
+          <List.Item
+            actions={[
+              <Button
+                key="jump"
+                type="link"
+                size="small"
+                icon={<RollbackOutlined />}
+                onClick={() => onJump(discrepancy.step)}
+              >
+                {getStepName(discrepancy.step) || "Go to step"}
+              </Button>,
+            ]}
+          >
+            <List.Item.Meta
+              title={
+                <Text style={{ color: darkMode ? "#fff" : undefined }}>
+                  {discrepancy.label}
+                </Text>
+              }
+              description={
+                <Text
+                  type="secondary"
+                  style={{ color: darkMode ? "#999" : undefined }}
+                >
+                  {kindLabels[discrepancy.kind]}
+                  {discrepancy.shownValue &&
+                    ` · shown "${discrepancy.shownValue}"`}
+                  {discrepancy.expectedValue &&
+                    ` · entered "${discrepancy.expectedValue}"`}
+                </Text>
+              }
+            />
+          </List.Item>
+        )}
+      />
+    </Space>
+  );
+};
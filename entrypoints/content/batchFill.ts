@@ -0,0 +1,405 @@
+import { generateStructured } from "@/utils/aiUtil";
+import { updateStatus } from "@/utils/commonUtils";
+import { waitFor } from "@/utils/domWaitUtil";
+import { getProgressBarStep } from "@/utils/progressUtils";
+import { checkpoint, RunStoppedError } from "@/utils/runControlUtil";
+import { StructuredSchema } from "@/utils/schemaUtil";
+import {
+  FieldType,
+  getFieldType,
+  getFieldsetFields,
+  getFieldValue,
+  getLabelledFields,
+  PageField,
+} from "./fields";
+import { handleSelectInput, readSelectOptions } from "./selectInput";
+import {
+  allowsMultipleSelections,
+  handleMultiSelectInput,
+  readMultiSelectOptions,
+} from "./multiSelect";
+import { getRadioOptions, handleRadioGroupInput } from "./radioGroup";
+import { CheckboxState, handleCheckboxInput } from "./checkbox";
+import { handleTextInput } from "./textInput";
+import {
+  getDateFields,
+  handleDateInput,
+  isCalendarOnly,
+  isDateFilled,
+} from "./dateInput";
+
+/**
+ * An option of a choice field as listed in the manifest
+ * @interface ManifestOption
+ */
+interface ManifestOption {
+  optionText: string | null;
+  optionId: string;
+}
+
+/**
+ * Description of a single field sent to the model
+ * @interface ManifestEntry
+ */
+interface ManifestEntry {
+  /** Key the answer is returned under */
+  key: string;
+  /** The question text */
+  label: string;
+  /** The kind of field */
+  type: FieldType;
+  /** The options of choice fields */
+  options?: ManifestOption[];
+  /** Constraints the answer has to respect */
+  constraints: {
+    required: boolean;
+    maxLength?: number;
+    currentState?: CheckboxState;
+    format?: string;
+  };
+}
+
+/**
+ * A page field together with its manifest entry
+ * @interface ManifestField
+ */
+interface ManifestField extends PageField {
+  entry: ManifestEntry;
+}
+
+/**
+ * Response structure from the AI model, answers are keyed by manifest key
+ * @interface AIResponse
+ */
+interface AIResponse {
+  answers: Record<string, string | null>;
+}
+
+/** Longest time for a field to show its answer after it was applied */
+const VALUE_TIMEOUT_MS = 2000;
+
+/**
+ * Custom error class for batch fill related errors
+ */
+class BatchFillError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "BatchFillError";
+  }
+}
+
+/**
+ * Answers every unfilled field on the current step with a single LLM call and
+ * applies the answers through the field handlers. Fields the model could not
+ * answer are left for the per-field pass.
+ * @param shouldInclude - Decides whether a field takes part in the batch
+ * @returns The fields that were filled from the batch answer
+ * @throws {RunStoppedError} When the user stopped the run
+ */
+export async function fillPageInBatch(
+  shouldInclude: (field: PageField) => boolean
+): Promise<PageField[]> {
+  const filledFields: PageField[] = [];
+
+  try {
+    const manifest = await collectManifest(shouldInclude);
+    if (!manifest.length) {
+      return filledFields;
+    }
+
+    updateStatus(
+      `Answering ${manifest.length} fields at once...`,
+      "Collected every unfilled field on this step",
+      ""
+    );
+
+    const { answers } = await requestAnswers(manifest);
+
+    for (const field of manifest) {
+      const answer = answers[field.entry.key];
+      if (typeof answer !== "string" || !answer.trim()) {
+        continue;
+      }
+      await checkpoint();
+      await applyAnswer(field, answer);
+      // Handlers log their own failures, a field without a value is left for
+      // the per-field pass
+      if (
+        await waitFor(() => getFieldValue(field.inputElement), {
+          timeout: VALUE_TIMEOUT_MS,
+        })
+      ) {
+        filledFields.push(field);
+      }
+    }
+  } catch (error) {
+    if (error instanceof RunStoppedError) {
+      throw error;
+    }
+    handleError(error);
+  }
+
+  return filledFields;
+}
+
+/**
+ * Collects every unfilled field on the step into the manifest
+ */
+async function collectManifest(
+  shouldInclude: (field: PageField) => boolean
+): Promise<ManifestField[]> {
+  const manifest: ManifestField[] = [];
+  const seenInputs = new Set<HTMLElement>();
+
+  for (const field of [
+    ...getLabelledFields(),
+    ...getFieldsetFields(),
+    ...getDateFields(),
+  ]) {
+    const { inputElement, labelText } = field;
+    const type = getFieldType(inputElement);
+
+    if (
+      !type ||
+      !labelText ||
+      seenInputs.has(inputElement) ||
+      inputElement.getAttribute("value") ||
+      !shouldInclude(field)
+    ) {
+      continue;
+    }
+    seenInputs.add(inputElement);
+
+    const entry = await describeField(
+      `field_${manifest.length + 1}`,
+      field,
+      type
+    );
+    if (entry) {
+      manifest.push({ ...field, entry });
+    }
+  }
+
+  return manifest;
+}
+
+/**
+ * Builds the manifest entry of a field, reading the options of choice fields
+ * @returns The entry, or null when the field cannot be answered in the batch
+ */
+async function describeField(
+  key: string,
+  { inputElement, labelText }: PageField,
+  type: FieldType
+): Promise<ManifestEntry | null> {
+  const entry: ManifestEntry = {
+    key,
+    label: labelText,
+    type,
+    constraints: {
+      required:
+        inputElement.getAttribute("aria-required") === "true" ||
+        inputElement.hasAttribute("required"),
+    },
+  };
+
+  try {
+    switch (type) {
+      case FieldType.Select: {
+        const options = await readSelectOptions(inputElement);
+        entry.options = options
+          .filter((opt) => !!opt.id)
+          .map((opt) => ({ optionText: opt.optionText, optionId: opt.id! }));
+        break;
+      }
+      case FieldType.MultiSelect: {
+        const options = allowsMultipleSelections(labelText)
+          ? null
+          : await readMultiSelectOptions(inputElement);
+        if (!options) {
+          return null; // Nested, search and multi-value prompts go per field
+        }
+        entry.options = options.filter(
+          (opt): opt is ManifestOption => opt.optionId !== null
+        );
+        break;
+      }
+      case FieldType.RadioGroup:
+        entry.options = getRadioOptions(inputElement);
+        break;
+      case FieldType.Checkbox:
+        entry.constraints.currentState = (inputElement as HTMLInputElement)
+          .checked
+          ? "checked"
+          : "unchecked";
+        break;
+      case FieldType.Text:
+        if (!(inputElement instanceof HTMLInputElement)) {
+          return null; // Textareas get a long-form answer per field
+        }
+        if (inputElement.maxLength > 0) {
+          entry.constraints.maxLength = inputElement.maxLength;
+        }
+        break;
+      case FieldType.Date:
+        // Calendar only widgets cannot take a typed answer
+        if (isDateFilled(inputElement) || isCalendarOnly(inputElement)) {
+          return null;
+        }
+        entry.constraints.format = "YYYY-MM-DD";
+        break;
+    }
+  } catch (error) {
+    // Leave the field to the per-field pass
+    handleError(
+      new BatchFillError(
+        `Failed to read the options of ${labelText}`,
+        "OPTIONS_UNAVAILABLE",
+        error
+      )
+    );
+    return null;
+  }
+
+  if (entry.options && !entry.options.length) {
+    return null;
+  }
+  return entry;
+}
+
+/**
+ * Builds the schema of the answer map, constraining each field's answer
+ */
+function buildResponseSchema(manifest: ManifestField[]): StructuredSchema {
+  const properties = Object.fromEntries(
+    manifest.map(({ entry }) => {
+      const allowedValues =
+        entry.type === FieldType.Checkbox
+          ? ["checked", "unchecked"]
+          : entry.options?.map((opt) => opt.optionId);
+
+      return [
+        entry.key,
+        allowedValues
+          ? { type: ["string", "null"], enum: [...allowedValues, null] }
+          : { type: ["string", "null"] },
+      ];
+    })
+  );
+
+  return {
+    name: "page_answers",
+    schema: {
+      type: "object",
+      properties: {
+        answers: {
+          type: "object",
+          properties,
+          required: Object.keys(properties),
+          additionalProperties: false,
+        },
+      },
+      required: ["answers"],
+      additionalProperties: false,
+    },
+  };
+}
+
+/**
+ * Asks the model once for the answers of every field in the manifest
+ * @throws {RunStoppedError} When the user stopped the run
+ * @throws {BatchFillError} When the AI request fails
+ */
+async function requestAnswers(manifest: ManifestField[]): Promise<AIResponse> {
+  try {
+    return await generateStructured<AIResponse>(
+      buildResponseSchema(manifest),
+      generatePrompt(manifest),
+      true,
+      `${manifest.length} fields on this step`,
+      manifest.map(({ entry }) => entry.label).join("\n")
+    );
+  } catch (error) {
+    if (error instanceof RunStoppedError) {
+      throw error;
+    }
+    throw new BatchFillError(
+      "Batch answering failed",
+      "AI_BATCH_FAILED",
+      error
+    );
+  }
+}
+
+/**
+ * Generates the prompt for the AI model
+ */
+function generatePrompt(manifest: ManifestField[]): string {
+  return `
+    Your task is to answer every field of the current form step at once, using the provided saved data of the user.
+
+    ### Instructions:
+    1. Carefully analyze the **label** and **type** of every field in the **Fields** list.
+    2. For fields with **options**, answer with the exact "optionId" of the most suitable option.
+    3. For **checkbox** fields, answer "checked" or "unchecked".
+    4. For **text** fields, answer with the value to input, respecting "maxLength" when present.
+    5. For **date** fields, answer in the given "format", leaving out the day or month when the saved data does not tell them (e.g. "2021-05").
+    6. Answer null when the saved data does not tell you the answer.
+    7. Return a **JSON object** in the below structure:
+      { "answers": { "<field key>": "answer or null", ... } }
+
+    ### Inputs:
+    - **Fields**: ${JSON.stringify(manifest.map(({ entry }) => entry))}
+    - **${getProgressBarStep()}**
+
+    Respond only with the JSON object.
+  `;
+}
+
+/**
+ * Applies an answer through the DOM actions of the field's handler
+ */
+async function applyAnswer(
+  { inputElement, labelText, entry }: ManifestField,
+  answer: string
+): Promise<void> {
+  switch (entry.type) {
+    case FieldType.Select:
+      await handleSelectInput(inputElement, labelText, answer);
+      break;
+    case FieldType.MultiSelect:
+      await handleMultiSelectInput(inputElement, labelText, answer);
+      break;
+    case FieldType.RadioGroup:
+      await handleRadioGroupInput(inputElement, labelText, answer);
+      break;
+    case FieldType.Checkbox:
+      await handleCheckboxInput(
+        inputElement,
+        labelText,
+        answer as CheckboxState
+      );
+      break;
+    case FieldType.Text:
+      await handleTextInput(inputElement, labelText, answer);
+      break;
+    case FieldType.Date:
+      await handleDateInput(inputElement, labelText, answer);
+      break;
+  }
+}
+
+/**
+ * Handles errors in a consistent way
+ */
+function handleError(error: unknown) {
+  if (error instanceof BatchFillError) {
+    console.error(`[${error.code}] ${error.message}`, error.details);
+  } else {
+    console.error("Unexpected error:", error);
+  }
+}
@@ -1,11 +1,12 @@
-import { generateText } from "@/utils/aiUtil";
+import { generateStructured } from "@/utils/aiUtil";
+import { enumProperty, StructuredSchema } from "@/utils/schemaUtil";
 import { getTextContentAbove, updateStatus } from "@/utils/commonUtils";
 import { getProgressBarStep } from "@/utils/progressUtils";
 
 /**
  * Represents the possible states of a checkbox
  */
-type CheckboxState = "checked" | "unchecked";
+export type CheckboxState = "checked" | "unchecked";
 
 /**
  * Response structure from the AI model
@@ -18,6 +19,22 @@ interface AIResponse {
   state: CheckboxState;
 }
 
+/**
+ * Schema of the AI response, the state is constrained to the checkbox states
+ */
+const RESPONSE_SCHEMA: StructuredSchema = {
+  name: "checkbox_state",
+  schema: {
+    type: "object",
+    properties: {
+      reason: { type: "string" },
+      state: enumProperty(["checked", "unchecked"]),
+    },
+    required: ["reason", "state"],
+    additionalProperties: false,
+  },
+};
+
 /**
  * Custom error class for checkbox-related errors
  */
@@ -45,11 +62,13 @@ function isCheckboxInput(element: HTMLElement): element is HTMLInputElement {
  * Handles a checkbox input by determining whether it should be checked or unchecked using AI suggestions.
  * @param inputElement - The HTML checkbox element to update
  * @param labelText - The label text associated with the checkbox
+ * @param presetState - A state that was already chosen (e.g. by the page batch)
  * @throws {CheckboxError} When input validation fails or interaction errors occur
  */
 export const handleCheckboxInput = async (
   inputElement: HTMLElement,
-  labelText: string
+  labelText: string,
+  presetState?: CheckboxState
 ): Promise<void> => {
   try {
     validateInputs(inputElement, labelText);
@@ -57,11 +76,17 @@ export const handleCheckboxInput = async (
     const checkbox = inputElement as HTMLInputElement;
     const currentState = getCheckboxState(checkbox);
     const contextSoFar = getTextContentAbove(checkbox);
-    const desiredState = await determineDesiredState(
-      labelText,
-      currentState,
-      contextSoFar
-    );
+    const desiredState = isCheckboxState(presetState)
+      ? presetState
+      : await determineDesiredState(labelText, currentState, contextSoFar);
+
+    if (isCheckboxState(presetState)) {
+      updateStatus(
+        `Filling input ${labelText}...`,
+        "Answered together with the other fields on this step",
+        presetState
+      );
+    }
 
     await updateCheckboxState(checkbox, desiredState);
   } catch (error) {
@@ -86,6 +111,13 @@ function validateInputs(element: HTMLElement, labelText: string): void {
   }
 }
 
+/**
+ * Type guard to check if a value is a valid checkbox state
+ */
+function isCheckboxState(value?: string): value is CheckboxState {
+  return value === "checked" || value === "unchecked";
+}
+
 /**
  * Gets the current state of a checkbox
  */
@@ -104,8 +136,12 @@ async function determineDesiredState(
 ): Promise<CheckboxState> {
   try {
     const prompt = generatePrompt(labelText, currentState, contextSoFar);
-    const aiResponse = await generateText(prompt, true);
-    const completion = parseAIResponse(aiResponse);
+    const completion = await generateStructured<AIResponse>(
+      RESPONSE_SCHEMA,
+      prompt,
+      true,
+      labelText
+    );
 
     updateStatus(
       `Filling input ${labelText}...`,
@@ -134,7 +170,7 @@ function generatePrompt(
   contextSoFar: string
 ): string {
   return `
-    You are an intelligent assistant helping a user complete a job application form on Workday. Your task is to determine whether a checkbox should be checked or unchecked based on the given label text, the current state of the checkbox, and the user's saved data.  
+    Your task is to determine whether a checkbox should be checked or unchecked based on the given label text, the current state of the checkbox, and the user's saved data.  
 
     ### Instructions:
     1. Carefully analyze the **label text**, the **current checkbox value**, and the context provided.
@@ -155,18 +191,6 @@ function generatePrompt(
   `;
 }
 
-/**
- * Parses and validates the AI response
- * @throws {Error} When response is invalid
- */
-function parseAIResponse(response: string): AIResponse {
-  try {
-    return JSON.parse(response);
-  } catch (error) {
-    throw new Error("Invalid JSON response from AI");
-  }
-}
-
 /**
  * Validates the structure and content of the AI response
  * @throws {Error} When validation fails
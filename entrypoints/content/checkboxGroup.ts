@@ -0,0 +1,295 @@
+import { generateStructured } from "@/utils/aiUtil";
+import { updateStatus } from "@/utils/commonUtils";
+import { getProgressBarStep } from "@/utils/progressUtils";
+import { enumProperty, StructuredSchema } from "@/utils/schemaUtil";
+
+/**
+ * A checkbox of a group with the text of its label
+ * @interface CheckboxOption
+ */
+export interface CheckboxOption {
+  input: HTMLInputElement;
+  optionText: string;
+  /** Whether the option rules out every other (e.g. "I do not wish to answer") */
+  exclusive: boolean;
+}
+
+/**
+ * A "select all that apply" question answered with several checkboxes
+ * @interface CheckboxGroup
+ */
+export interface CheckboxGroup {
+  fieldset: HTMLFieldSetElement;
+  /** The question of the group, taken from its legend */
+  question: string;
+  options: CheckboxOption[];
+  /** Whether the fieldset is flagged as invalid */
+  hasError: boolean;
+}
+
+/**
+ * Response structure from the AI model
+ * @interface AIResponse
+ */
+interface AIResponse {
+  /** Explanation for the chosen options */
+  reason: string;
+  /** Ids of the checkboxes to check, every other one is unchecked */
+  optionIds: string[];
+}
+
+/**
+ * Custom error class for checkbox group related errors
+ */
+class CheckboxGroupError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "CheckboxGroupError";
+  }
+}
+
+/** DOM selectors used for finding checkbox groups */
+const SELECTORS = {
+  FIELDSET: "fieldset",
+  CHECKBOX: 'input[type="checkbox"]',
+} as const;
+
+/** Options that cannot be combined with any other option */
+const EXCLUSIVE_OPTION =
+  /do not wish|don'?t wish|prefer not|decline|choose not|none of (the )?(above|these)|not applicable/i;
+
+/** Number of checkboxes from which a fieldset is answered as one question */
+const MIN_GROUP_SIZE = 2;
+
+/**
+ * Collects every fieldset on the step that holds a group of checkboxes.
+ * @param root - The element to search in, the whole page by default
+ * @returns One group per fieldset, in document order
+ */
+export function getCheckboxGroups(
+  root: ParentNode = document
+): CheckboxGroup[] {
+  return Array.from(
+    root.querySelectorAll<HTMLFieldSetElement>(SELECTORS.FIELDSET)
+  )
+    .map((fieldset) => ({
+      fieldset,
+      question:
+        fieldset.querySelector("legend")?.textContent?.trim() ||
+        fieldset.getAttribute("aria-label") ||
+        "Select all that apply",
+      options: getCheckboxOptions(fieldset),
+      hasError: fieldset.getAttribute("aria-invalid") === "true",
+    }))
+    .filter((group) => group.options.length >= MIN_GROUP_SIZE);
+}
+
+/**
+ * Checks whether a checkbox belongs to a group answered as one question
+ * @param inputElement - The element to check
+ */
+export function isGroupedCheckbox(inputElement: HTMLElement): boolean {
+  const fieldset = inputElement.closest<HTMLFieldSetElement>(
+    SELECTORS.FIELDSET
+  );
+  return (
+    inputElement.matches(SELECTORS.CHECKBOX) &&
+    !!fieldset &&
+    getCheckboxOptions(fieldset).length >= MIN_GROUP_SIZE
+  );
+}
+
+/**
+ * Reads the checkboxes of a fieldset that belong to it directly, skipping
+ * those of fieldsets nested inside it
+ * @param fieldset - The fieldset of the group
+ */
+export function getCheckboxOptions(
+  fieldset: HTMLFieldSetElement
+): CheckboxOption[] {
+  return Array.from(
+    fieldset.querySelectorAll<HTMLInputElement>(SELECTORS.CHECKBOX)
+  )
+    .filter(
+      (input) => input.id && input.closest(SELECTORS.FIELDSET) === fieldset
+    )
+    .map((input) => {
+      const optionText =
+        document
+          .querySelector(`label[for="${input.id}"]`)
+          ?.textContent?.trim() ||
+        input.closest("label")?.textContent?.trim() ||
+        input.getAttribute("aria-label") ||
+        "";
+      return {
+        input,
+        optionText,
+        exclusive: EXCLUSIVE_OPTION.test(optionText),
+      };
+    });
+}
+
+/**
+ * Answers a checkbox group with a single AI call over all of its options and
+ * applies the chosen set, keeping exclusive options on their own.
+ * @param group - The group to answer
+ * @throws {CheckboxGroupError} When the AI call or updating the checkboxes fails
+ */
+export async function handleCheckboxGroup(group: CheckboxGroup): Promise<void> {
+  try {
+    const selectedIds = await determineSelection(group);
+    const selection = resolveExclusiveOptions(
+      group.options.filter((option) => selectedIds.includes(option.input.id))
+    );
+    await applySelection(group.options, selection);
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Determines the options to check using AI
+ * @throws {CheckboxGroupError} When AI processing fails
+ */
+async function determineSelection(group: CheckboxGroup): Promise<string[]> {
+  try {
+    const completion = await generateStructured<AIResponse>(
+      buildResponseSchema(group.options),
+      generatePrompt(group),
+      true,
+      group.question
+    );
+
+    if (!Array.isArray(completion.optionIds)) {
+      throw new Error("Invalid optionIds in AI response");
+    }
+
+    const texts = group.options
+      .filter((option) => completion.optionIds.includes(option.input.id))
+      .map((option) => option.optionText);
+    updateStatus(
+      `Filling input ${group.question}...`,
+      completion.reason,
+      texts.join(", ")
+    );
+    return completion.optionIds;
+  } catch (error) {
+    throw new CheckboxGroupError(
+      "Failed to determine the checked options",
+      "AI_PROCESSING_FAILED",
+      error
+    );
+  }
+}
+
+/**
+ * Keeps an exclusive option only when nothing else was chosen, as a group
+ * cannot be both answered and declined
+ */
+function resolveExclusiveOptions(
+  selection: CheckboxOption[]
+): CheckboxOption[] {
+  const regularOptions = selection.filter((option) => !option.exclusive);
+  return regularOptions.length ? regularOptions : selection.slice(0, 1);
+}
+
+/**
+ * Builds the response schema with the optionIds constrained to the checkboxes
+ */
+function buildResponseSchema(options: CheckboxOption[]): StructuredSchema {
+  return {
+    name: "checkbox_group",
+    schema: {
+      type: "object",
+      properties: {
+        reason: { type: "string" },
+        optionIds: {
+          type: "array",
+          items: enumProperty(options.map((option) => option.input.id)),
+        },
+      },
+      required: ["reason", "optionIds"],
+      additionalProperties: false,
+    },
+  };
+}
+
+/**
+ * Generates the prompt for the AI model
+ */
+function generatePrompt({ question, options }: CheckboxGroup): string {
+  const optionsData = options.map((option) => ({
+    optionId: option.input.id,
+    optionText: option.optionText,
+    exclusive: option.exclusive,
+  }));
+
+  return `
+    Your task is to answer a question of the form that is answered by checking any number of checkboxes, using the provided saved data of the user.
+
+    ### Instructions:
+    1. Carefully analyze the **question** and every option.
+    2. Select each option that applies to the user according to the saved data, and only those.
+    3. Options marked **exclusive** (e.g. "I do not wish to answer" or "None of the above") cannot be combined with any other option. Select one of them alone when the saved data does not answer the question.
+    4. Return a **JSON object** in the exact structure:
+      { "reason": "reason for selecting the options", "optionIds": ["optionId"] }
+
+    ### Important:
+    - Every **optionIds** entry must be the exact "optionId" of one of the options.
+    - Return an empty list only when no option applies and there is no exclusive option.
+
+    ### Inputs:
+    - **Question**: ${question}
+    - **Options**: ${JSON.stringify(optionsData)}
+    - **${getProgressBarStep()}**
+
+    Respond only with the JSON object.
+  `;
+}
+
+/**
+ * Checks the selected options and unchecks the others. Unchecking first keeps
+ * forms that clear the other options when an exclusive one is checked in sync.
+ * @throws {CheckboxGroupError} When a checkbox cannot be updated
+ */
+async function applySelection(
+  options: CheckboxOption[],
+  selection: CheckboxOption[]
+): Promise<void> {
+  try {
+    for (const { input } of options) {
+      if (
+        input.checked &&
+        !selection.some((option) => option.input === input)
+      ) {
+        input.click();
+      }
+    }
+    for (const { input } of selection) {
+      if (!input.checked) {
+        input.click();
+      }
+    }
+  } catch (error) {
+    throw new CheckboxGroupError(
+      "Failed to update the checkboxes",
+      "STATE_UPDATE_FAILED",
+      error
+    );
+  }
+}
+
+/**
+ * Handles errors in a consistent way
+ */
+function handleError(error: unknown) {
+  if (error instanceof CheckboxGroupError) {
+    console.error(`[${error.code}] ${error.message}`, error.details);
+  } else {
+    console.error("Unexpected error:", error);
+  }
+}
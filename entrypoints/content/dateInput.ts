@@ -1,11 +1,410 @@
-export const handleDateInput = async (
-  inputElement: HTMLElement,
-  labelText: string
-): Promise<void> => {
-  inputElement?.click();
-  await delay(1000);
-  const toodaysDate = document.querySelector<HTMLElement>(
-    '[data-automation-id="datePickerSelectedToday"]'
-  );
-  toodaysDate?.click();
+import { generateStructured } from "@/utils/aiUtil";
+import { simulateTyping, updateStatus } from "@/utils/commonUtils";
+import { waitForElement } from "@/utils/domWaitUtil";
+import { getProgressBarStep } from "@/utils/progressUtils";
+import { StructuredSchema } from "@/utils/schemaUtil";
+import type { PageField } from "./fields";
+
+/**
+ * The parts a Workday date widget can ask for
+ * @enum {string}
+ */
+enum DatePart {
+  Month = "month",
+  Day = "day",
+  Year = "year",
+}
+
+/**
+ * A segmented input of a date widget (e.g. the MM of MM/YYYY)
+ * @interface DateSegment
+ */
+export interface DateSegment {
+  part: DatePart;
+  input: HTMLInputElement;
+}
+
+/**
+ * Response structure from the AI model, parts the widget does not ask for are
+ * left out
+ * @interface AIResponse
+ */
+interface AIResponse {
+  /** Explanation for the chosen date */
+  reason: string;
+  month?: number | null;
+  day?: number | null;
+  year?: number | null;
+}
+
+/**
+ * Custom error class for date input related errors
+ */
+class DateInputError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "DateInputError";
+  }
+}
+
+/** DOM selectors used for finding date widgets */
+const SELECTORS = {
+  SEGMENT: 'input[data-automation-id^="dateSection"]',
+  WRAPPER: '[data-automation-id="dateInputWrapper"]',
+  FORM_FIELD: '[data-automation-id^="formField"]',
+  ICON: '[data-automation-id="dateIcon"]',
+  TODAY: '[data-automation-id="datePickerSelectedToday"]',
+} as const;
+
+/** Segment automation ids and the part they hold */
+const SEGMENT_PARTS: Record<string, DatePart> = {
+  dateSectionMonth: DatePart.Month,
+  dateSectionDay: DatePart.Day,
+  dateSectionYear: DatePart.Year,
 };
+
+/** Labels of fields that take the date they are filled in on */
+const SIGNATURE_LABEL = /signature|signed|today'?s date|current date/i;
+
+/** Delay between typed digits in milliseconds */
+const TYPING_DELAY = 50;
+
+/** Longest time to wait for the date picker to open in milliseconds */
+const PICKER_TIMEOUT = 3000;
+
+/**
+ * Fills a date widget with the date the field asks for. Signature style
+ * fields get today's date, every other date is determined from the user's
+ * saved data.
+ * @param dateElement - Any element inside the date widget
+ * @param labelText - The label text associated with the date
+ * @param presetDate - A date that was already chosen, as ISO `YYYY-MM-DD`
+ * @throws {DateInputError} When input validation fails or interaction errors occur
+ */
+export async function handleDateInput(
+  dateElement: HTMLElement,
+  labelText: string,
+  presetDate?: string
+): Promise<void> {
+  try {
+    const wrapper = getDateWrapper(dateElement);
+    const segments = getDateSegments(wrapper);
+
+    if (!segments.length) {
+      // Widgets without typed segments only offer today in the calendar
+      await pickTodayFromCalendar(wrapper);
+      return;
+    }
+
+    const date = SIGNATURE_LABEL.test(labelText)
+      ? todaysDate(labelText)
+      : presetDate
+        ? parsePresetDate(presetDate, labelText)
+        : await determineDateWithAI(segments, labelText);
+
+    if (date.year === null || date.year === undefined) {
+      throw new DateInputError(
+        `No date found for ${labelText}`,
+        "DATE_UNKNOWN",
+        date.reason
+      );
+    }
+
+    await typeDate(segments, date);
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Collects every date widget on the step with its question text.
+ * @param root - The element to search in, the whole page by default
+ * @returns One field per widget, pointing at its first segment or, for
+ * widgets that only offer the calendar, at its date icon
+ */
+export function getDateFields(root: ParentNode = document): PageField[] {
+  const fields: PageField[] = [];
+  const seenWrappers = new Set<HTMLElement>();
+
+  for (const element of Array.from(
+    root.querySelectorAll<HTMLElement>(
+      `${SELECTORS.SEGMENT}, ${SELECTORS.ICON}`
+    )
+  )) {
+    const wrapper = getDateWrapper(element);
+    if (seenWrappers.has(wrapper)) continue;
+    seenWrappers.add(wrapper);
+
+    const inputElement = getDateSegments(wrapper)[0]?.input || element;
+    const formField = wrapper.closest(SELECTORS.FORM_FIELD) || wrapper;
+    const label = formField.querySelector("label, legend");
+    fields.push({
+      labelText:
+        label?.textContent?.trim() ||
+        inputElement.getAttribute("aria-label") ||
+        "Date",
+      inputElement,
+      fieldsetHasError: formField.getAttribute("aria-invalid") === "true",
+    });
+  }
+
+  return fields;
+}
+
+/**
+ * Returns the element grouping the segments of the widget an element is in
+ * @param dateElement - Any element inside the date widget
+ */
+export function getDateWrapper(dateElement: HTMLElement): HTMLElement {
+  return (
+    dateElement.closest<HTMLElement>(SELECTORS.WRAPPER) ||
+    dateElement.closest<HTMLElement>(SELECTORS.FORM_FIELD) ||
+    dateElement.parentElement ||
+    dateElement
+  );
+}
+
+/**
+ * Returns the segmented inputs of a date widget in display order
+ * @param wrapper - The element grouping the segments
+ */
+export function getDateSegments(wrapper: HTMLElement): DateSegment[] {
+  return Array.from(
+    wrapper.querySelectorAll<HTMLInputElement>(SELECTORS.SEGMENT)
+  )
+    .map((input) => {
+      const automationId = input.getAttribute("data-automation-id") || "";
+      const key = Object.keys(SEGMENT_PARTS).find((prefix) =>
+        automationId.startsWith(prefix)
+      );
+      return key ? { part: SEGMENT_PARTS[key], input } : null;
+    })
+    .filter((segment): segment is DateSegment => segment !== null);
+}
+
+/**
+ * Reads the value a segment shows
+ * @returns The value, or an empty string when the segment is empty
+ */
+export function getSegmentValue({ input }: DateSegment): string {
+  return input.value || input.getAttribute("aria-valuenow") || "";
+}
+
+/**
+ * Checks whether a date widget only offers the calendar, without segments
+ * @param dateElement - Any element inside the date widget
+ */
+export function isCalendarOnly(dateElement: HTMLElement): boolean {
+  return !getDateSegments(getDateWrapper(dateElement)).length;
+}
+
+/**
+ * Checks whether every segment of a date widget has a value
+ * @param dateElement - Any element inside the date widget
+ */
+export function isDateFilled(dateElement: HTMLElement): boolean {
+  const segments = getDateSegments(getDateWrapper(dateElement));
+  return segments.length > 0 && segments.every((s) => !!getSegmentValue(s));
+}
+
+/**
+ * Opens the calendar of a widget and picks today
+ * @throws {DateInputError} When the calendar cannot be opened
+ */
+async function pickTodayFromCalendar(wrapper: HTMLElement): Promise<void> {
+  const icon =
+    wrapper.querySelector<HTMLElement>(SELECTORS.ICON) ||
+    (wrapper.matches(SELECTORS.ICON) ? wrapper : null);
+  if (!icon) {
+    throw new DateInputError("Date picker not found", "PICKER_NOT_FOUND");
+  }
+  icon.click();
+  const today = await waitForElement(SELECTORS.TODAY, {
+    timeout: PICKER_TIMEOUT,
+  });
+  if (!today) {
+    throw new DateInputError("Date picker did not open", "PICKER_NOT_OPEN");
+  }
+  today.click();
+}
+
+/**
+ * Returns today's date for signature style fields
+ */
+function todaysDate(labelText: string): AIResponse {
+  const today = new Date();
+  const date = {
+    reason: "Signature dates take the date the form is filled in",
+    month: today.getMonth() + 1,
+    day: today.getDate(),
+    year: today.getFullYear(),
+  };
+  updateStatus(`Filling input ${labelText}...`, date.reason, formatDate(date));
+  return date;
+}
+
+/**
+ * Parses a preset ISO date
+ * @throws {DateInputError} When the preset is not a valid date
+ */
+function parsePresetDate(presetDate: string, labelText: string): AIResponse {
+  const match = presetDate.match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/);
+  if (!match) {
+    throw new DateInputError(
+      `Invalid preset date ${presetDate}`,
+      "INVALID_PRESET"
+    );
+  }
+  const date = {
+    reason: "Answered together with the other fields on this step",
+    year: parseInt(match[1]),
+    month: match[2] ? parseInt(match[2]) : null,
+    day: match[3] ? parseInt(match[3]) : null,
+  };
+  updateStatus(`Filling input ${labelText}...`, date.reason, presetDate);
+  return date;
+}
+
+/**
+ * Determines the date of a field using AI
+ * @throws {DateInputError} When AI selection fails
+ */
+async function determineDateWithAI(
+  segments: DateSegment[],
+  labelText: string
+): Promise<AIResponse> {
+  try {
+    const completion = await generateStructured<AIResponse>(
+      buildResponseSchema(segments),
+      generatePrompt(labelText, segments),
+      true,
+      labelText
+    );
+
+    updateStatus(
+      `Filling input ${labelText}...`,
+      completion.reason,
+      formatDate(completion)
+    );
+
+    validateAIResponse(completion);
+    return completion;
+  } catch (error) {
+    throw new DateInputError(
+      "AI date selection failed",
+      "AI_DATE_FAILED",
+      error
+    );
+  }
+}
+
+/**
+ * Builds the response schema with one integer per part the widget asks for
+ */
+function buildResponseSchema(segments: DateSegment[]): StructuredSchema {
+  const parts = segments.map((segment) => segment.part);
+  return {
+    name: "date_value",
+    schema: {
+      type: "object",
+      properties: {
+        reason: { type: "string" },
+        ...Object.fromEntries(
+          parts.map((part) => [part, { type: ["integer", "null"] }])
+        ),
+      },
+      required: ["reason", ...parts],
+      additionalProperties: false,
+    },
+  };
+}
+
+/**
+ * Generates the prompt for the AI model
+ */
+function generatePrompt(labelText: string, segments: DateSegment[]): string {
+  const parts = segments.map((segment) => segment.part);
+  return `
+    Your task is to determine the date to enter into a date field of the form, using the provided saved data of the user.
+
+    ### Instructions:
+    1. Carefully analyze the **label text** to understand which date is asked for (e.g. a graduation date, the start or end of a job, the earliest availability).
+    2. Find that date in the saved data. Relative answers such as availability may be computed from **Today**.
+    3. Return a **JSON object** with the parts ${JSON.stringify(parts)} as numbers in the below structure:
+      { "reason": "reason for choosing the date", ${parts
+        .map((part) => `"${part}": ${part}`)
+        .join(", ")} }
+    4. Use null for parts the saved data does not tell you, and null for the year when the date is unknown.
+
+    ### Inputs:
+    - **Label Text**: ${labelText}
+    - **Today**: ${new Date().toISOString().slice(0, 10)}
+    - **${getProgressBarStep()}**
+
+    Respond only with the JSON object.
+  `;
+}
+
+/**
+ * Validates the date parts of the AI response
+ * @throws {Error} When a part is out of range
+ */
+function validateAIResponse(response: AIResponse): void {
+  const ranges: Record<DatePart, [number, number]> = {
+    [DatePart.Month]: [1, 12],
+    [DatePart.Day]: [1, 31],
+    [DatePart.Year]: [1900, 2100],
+  };
+
+  for (const [part, [min, max]] of Object.entries(ranges)) {
+    const value = response[part as DatePart];
+    if (value !== null && value !== undefined && (value < min || value > max)) {
+      throw new Error(`The ${part} ${value} is out of range`);
+    }
+  }
+}
+
+/**
+ * Formats the known parts of a date for the status feed
+ */
+function formatDate({ month, day, year }: AIResponse): string {
+  return [month, day, year]
+    .filter((part) => part !== null && part !== undefined)
+    .join("/");
+}
+
+/**
+ * Types the date into the segmented inputs, skipping unknown parts
+ * @throws {DateInputError} When typing fails
+ */
+async function typeDate(
+  segments: DateSegment[],
+  date: AIResponse
+): Promise<void> {
+  try {
+    for (const { part, input } of segments) {
+      const value = date[part];
+      if (value === null || value === undefined) continue;
+
+      const text = String(value).padStart(part === DatePart.Year ? 4 : 2, "0");
+      await simulateTyping(input, text, TYPING_DELAY);
+    }
+  } catch (error) {
+    throw new DateInputError("Failed to type the date", "TYPING_FAILED", error);
+  }
+}
+
+/**
+ * Handles errors in a consistent way
+ */
+function handleError(error: unknown) {
+  if (error instanceof DateInputError) {
+    console.error(`[${error.code}] ${error.message}`, error.details);
+  } else {
+    console.error("Unexpected error:", error);
+  }
+}
@@ -0,0 +1,168 @@
+import { getDateSegments, getDateWrapper, getSegmentValue } from "./dateInput";
+import { getCheckboxOptions } from "./checkboxGroup";
+
+/**
+ * The kinds of fields the content script knows how to fill
+ * @enum {string}
+ */
+export enum FieldType {
+  Select = "select",
+  MultiSelect = "multiselect",
+  RadioGroup = "radioGroup",
+  Checkbox = "checkbox",
+  CheckboxGroup = "checkboxGroup",
+  Text = "text",
+  Date = "date",
+}
+
+/** Text of a Workday select without a chosen option */
+const SELECT_PLACEHOLDER = /^select one$/i;
+
+/**
+ * A fillable input on the current step together with its question text
+ * @interface PageField
+ */
+export interface PageField {
+  /** The label or legend text of the field */
+  labelText: string;
+  /** The input element the label points to */
+  inputElement: HTMLElement;
+  /** Whether the surrounding fieldset is flagged as invalid */
+  fieldsetHasError: boolean;
+}
+
+/**
+ * Determines the field type of an input element from its attributes.
+ * @param inputElement - The input element to classify
+ * @returns The field type, or null when the element is not supported
+ */
+export function getFieldType(inputElement: HTMLElement): FieldType | null {
+  const widgetType = inputElement.getAttribute("data-uxi-widget-type");
+  const inputType = inputElement.getAttribute("type");
+  const automationId = inputElement.getAttribute("data-automation-id") || "";
+
+  if (inputElement.getAttribute("aria-haspopup") === "listbox") {
+    return FieldType.Select;
+  } else if (widgetType === "selectinput") {
+    return FieldType.MultiSelect;
+  } else if (widgetType === "radioGroup") {
+    return FieldType.RadioGroup;
+  } else if (
+    automationId.startsWith("dateSection") ||
+    automationId === "dateIcon"
+  ) {
+    return FieldType.Date;
+  } else if (inputElement instanceof HTMLFieldSetElement) {
+    return FieldType.CheckboxGroup;
+  } else if (inputType === "checkbox") {
+    return FieldType.Checkbox;
+  } else if (inputType === "text" || inputElement.tagName === "TEXTAREA") {
+    return FieldType.Text;
+  }
+  return null;
+}
+
+/**
+ * Collects every `label[for]` on the page with the input it points to.
+ * @param root - The element to search in, the whole page by default
+ * @returns The labelled fields in document order
+ */
+export function getLabelledFields(root: ParentNode = document): PageField[] {
+  return Array.from(root.querySelectorAll<HTMLLabelElement>("label"))
+    .map((label) => {
+      const inputId = label.getAttribute("for");
+      return {
+        labelText: label.textContent?.trim() || "",
+        inputElement: inputId ? document.getElementById(inputId) : null,
+        fieldsetHasError: false,
+      };
+    })
+    .filter((field): field is PageField => !!field.inputElement);
+}
+
+/**
+ * Collects every fieldset legend that points to an input.
+ * @param root - The element to search in, the whole page by default
+ * @returns The legend fields in document order
+ */
+export function getFieldsetFields(root: ParentNode = document): PageField[] {
+  const fields: PageField[] = [];
+
+  for (const fieldset of Array.from(
+    root.querySelectorAll<HTMLFieldSetElement>("fieldset")
+  )) {
+    const fieldsetHasError = !!fieldset.getAttribute("aria-invalid");
+
+    for (const legend of Array.from(
+      fieldset.querySelectorAll<HTMLLegendElement>("legend")
+    )) {
+      const legendInputId = legend.getAttribute("for");
+      const inputElement =
+        legendInputId && document.getElementById(legendInputId);
+      if (inputElement) {
+        fields.push({
+          labelText: legend.textContent?.trim() || "",
+          inputElement,
+          fieldsetHasError,
+        });
+      }
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Reads the value a field shows after it was filled.
+ * @param inputElement - The input element of the field
+ * @returns The displayed value, or null when the field is empty
+ */
+export function getFieldValue(inputElement: HTMLElement): string | null {
+  switch (getFieldType(inputElement)) {
+    case FieldType.Text:
+      return (inputElement as HTMLInputElement).value || null;
+    case FieldType.Checkbox:
+      return (inputElement as HTMLInputElement).checked
+        ? "checked"
+        : "unchecked";
+    case FieldType.CheckboxGroup: {
+      const values = getCheckboxOptions(inputElement as HTMLFieldSetElement)
+        .filter((option) => option.input.checked)
+        .map((option) => option.optionText);
+      return values.length ? values.join(", ") : null;
+    }
+    case FieldType.Select: {
+      // The button shows the placeholder until an option is chosen
+      const text = inputElement.textContent?.trim() || "";
+      return inputElement.getAttribute("value") &&
+        !SELECT_PLACEHOLDER.test(text)
+        ? text
+        : null;
+    }
+    case FieldType.RadioGroup: {
+      const checked = inputElement.querySelector<HTMLInputElement>(
+        'input[type="radio"]:checked'
+      );
+      const label =
+        checked && document.querySelector(`label[for="${checked.id}"]`);
+      return label?.textContent?.trim() || null;
+    }
+    case FieldType.Date: {
+      const values = getDateSegments(getDateWrapper(inputElement)).map(
+        getSegmentValue
+      );
+      return values.every(Boolean) ? values.join("/") : null;
+    }
+    case FieldType.MultiSelect: {
+      const selectedItems = inputElement
+        .closest('[data-automation-id^="formField"]')
+        ?.querySelectorAll('[data-automation-id="selectedItem"]');
+      const values = Array.from(selectedItems || [])
+        .map((item) => item.textContent?.trim())
+        .filter(Boolean);
+      return values.length ? values.join(", ") : null;
+    }
+    default:
+      return null;
+  }
+}
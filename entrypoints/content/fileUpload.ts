@@ -0,0 +1,143 @@
+import { updateStatus } from "@/utils/commonUtils";
+import { waitForElement } from "@/utils/domWaitUtil";
+import {
+  getFileForApplication,
+  StoredFileKind,
+  toFile,
+} from "@/utils/fileUtil";
+import { PageField } from "./fields";
+
+/**
+ * Custom error class for file upload related errors
+ */
+class FileUploadError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "FileUploadError";
+  }
+}
+
+/** DOM selectors used for finding upload widgets */
+const SELECTORS = {
+  INPUT: 'input[type="file"][data-automation-id="file-upload-input-ref"]',
+  FORM_FIELD: '[data-automation-id^="formField"]',
+  UPLOADED_FILE:
+    '[data-automation-id="file-upload-successful"], [data-automation-id^="file-upload-item"]',
+} as const;
+
+/** Labels of upload widgets that take a cover letter */
+const COVER_LETTER_LABEL = /cover letter|motivation/i;
+
+/** Longest time for Workday to upload the attached file in milliseconds */
+const UPLOAD_TIMEOUT = 15000;
+
+/**
+ * Collects the file upload widgets on the step that have no file yet.
+ * @returns One field per widget, pointing at its file input
+ */
+export function getFileUploadFields(): PageField[] {
+  return Array.from(
+    document.querySelectorAll<HTMLInputElement>(SELECTORS.INPUT)
+  )
+    .filter((input) => !hasUploadedFile(input))
+    .map((input) => {
+      const formField = input.closest(SELECTORS.FORM_FIELD);
+      const label = formField?.querySelector("label, legend, h3, h4");
+      return {
+        labelText: label?.textContent?.trim() || "Resume/CV",
+        inputElement: input,
+        fieldsetHasError: false,
+      };
+    });
+}
+
+/**
+ * Checks whether an upload widget already holds a file
+ */
+function hasUploadedFile(input: HTMLInputElement): boolean {
+  const container = input.closest(SELECTORS.FORM_FIELD) || input.parentElement;
+  return (
+    !!input.files?.length || !!container?.querySelector(SELECTORS.UPLOADED_FILE)
+  );
+}
+
+/**
+ * Attaches the stored resume or cover letter chosen for the application to
+ * an upload widget, as if the user had dropped the file on it.
+ * @param inputElement - The file input of the widget
+ * @param labelText - The label of the widget
+ * @param applicationUrl - The application, see `getApplicationUrl`
+ * @throws {FileUploadError} When the file cannot be attached
+ */
+export async function handleFileUpload(
+  inputElement: HTMLElement,
+  labelText: string,
+  applicationUrl: string
+): Promise<void> {
+  try {
+    if (!(inputElement instanceof HTMLInputElement)) {
+      throw new FileUploadError("Invalid file input", "INVALID_INPUT");
+    }
+
+    const kind = COVER_LETTER_LABEL.test(labelText)
+      ? StoredFileKind.CoverLetter
+      : StoredFileKind.Resume;
+    const storedFile = await getFileForApplication(applicationUrl, kind);
+    if (!storedFile) {
+      updateStatus(
+        `Skipping ${labelText}...`,
+        "No stored file was chosen for this upload",
+        ""
+      );
+      return;
+    }
+
+    updateStatus(
+      `Attaching ${labelText}...`,
+      `Using the stored file chosen for this application`,
+      storedFile.name
+    );
+
+    const dataTransfer = new DataTransfer();
+    dataTransfer.items.add(toFile(storedFile));
+    inputElement.files = dataTransfer.files;
+    inputElement.dispatchEvent(new Event("input", { bubbles: true }));
+    inputElement.dispatchEvent(new Event("change", { bubbles: true }));
+
+    const uploadedFile = await waitForElement(SELECTORS.UPLOADED_FILE, {
+      root: inputElement.closest(SELECTORS.FORM_FIELD) || document,
+      timeout: UPLOAD_TIMEOUT,
+    });
+    if (!uploadedFile) {
+      throw new FileUploadError(
+        `Workday did not confirm the upload of ${storedFile.name}`,
+        "UPLOAD_NOT_CONFIRMED"
+      );
+    }
+  } catch (error) {
+    handleError(
+      error instanceof FileUploadError
+        ? error
+        : new FileUploadError(
+            `Failed to attach a file to ${labelText}`,
+            "ATTACH_FAILED",
+            error
+          )
+    );
+  }
+}
+
+/**
+ * Handles errors in a consistent way
+ */
+function handleError(error: unknown) {
+  if (error instanceof FileUploadError) {
+    console.error(`[${error.code}] ${error.message}`, error.details);
+  } else {
+    console.error("Unexpected error:", error);
+  }
+}
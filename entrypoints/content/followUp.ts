@@ -0,0 +1,114 @@
+import { getDateFields } from "./dateInput";
+import { isGroupedCheckbox } from "./checkboxGroup";
+import {
+  FieldType,
+  getFieldsetFields,
+  getFieldType,
+  getFieldValue,
+  getLabelledFields,
+  PageField,
+} from "./fields";
+
+/** DOM selectors used for finding the section of a field */
+const SELECTORS = {
+  FORM_FIELD: '[data-automation-id^="formField"]',
+  SECTION: 'section, [role="group"], [data-automation-id$="Section"]',
+} as const;
+
+/** Field types whose answer can reveal conditional follow-up fields */
+const REVEALING_TYPES = new Set<FieldType | null>([
+  FieldType.Select,
+  FieldType.MultiSelect,
+  FieldType.RadioGroup,
+  FieldType.Checkbox,
+  FieldType.CheckboxGroup,
+]);
+
+/**
+ * Checks whether answering a field can reveal follow-up fields, like the
+ * text box shown after choosing "Other" or "Yes (please explain)".
+ * @param inputElement - The input element of the field
+ */
+export function canRevealFollowUps(inputElement: HTMLElement): boolean {
+  return REVEALING_TYPES.has(getFieldType(inputElement));
+}
+
+/**
+ * Returns the form section a field belongs to, the page when it has none.
+ * @param inputElement - The input element of the field
+ */
+export function getFormSection(inputElement: HTMLElement): Element | Document {
+  const formField = inputElement.closest(SELECTORS.FORM_FIELD) || inputElement;
+  return formField.parentElement?.closest(SELECTORS.SECTION) || document;
+}
+
+/**
+ * Collects the inputs of every field in a section, to tell the fields shown
+ * later apart.
+ * @param section - The section to search in
+ */
+export function getSectionInputs(section: ParentNode): Set<HTMLElement> {
+  return new Set(getSectionFields(section).map((field) => field.inputElement));
+}
+
+/**
+ * Finds the empty fields of a section that were not there before.
+ * @param section - The section the parent field belongs to
+ * @param knownInputs - The inputs of the section before the parent was answered
+ * @returns The follow-up fields in document order
+ */
+export function getFollowUpFields(
+  section: ParentNode,
+  knownInputs: Set<HTMLElement>
+): PageField[] {
+  return getSectionFields(section).filter(({ inputElement }) => {
+    // A checkbox always has a value, unchecked is its empty state
+    const value = getFieldValue(inputElement);
+    return (
+      !knownInputs.has(inputElement) &&
+      !inputElement.getAttribute("value") &&
+      (!value || value === "unchecked")
+    );
+  });
+}
+
+/**
+ * Builds the label a follow-up field is answered with, so the model knows the
+ * question and answer that revealed it.
+ * @param followUp - The follow-up field
+ * @param parentLabel - The label of the field that revealed it
+ * @param parentValue - The answer of that field
+ */
+export function describeFollowUp(
+  followUp: PageField,
+  parentLabel: string,
+  parentValue: string | null
+): string {
+  const answer = parentValue ? `, answered "${parentValue}"` : "";
+  return `${followUp.labelText} (follow-up to "${parentLabel}"${answer})`;
+}
+
+/**
+ * Collects the labelled, legend and date fields of a section once each.
+ * Grouped checkboxes are left out as their fieldset is answered instead.
+ */
+function getSectionFields(section: ParentNode): PageField[] {
+  const seenInputs = new Set<HTMLElement>();
+
+  return [
+    ...getLabelledFields(section),
+    ...getFieldsetFields(section),
+    ...getDateFields(section),
+  ].filter(({ inputElement, labelText }) => {
+    if (
+      !labelText ||
+      seenInputs.has(inputElement) ||
+      !getFieldType(inputElement) ||
+      isGroupedCheckbox(inputElement)
+    ) {
+      return false;
+    }
+    seenInputs.add(inputElement);
+    return true;
+  });
+}
@@ -3,94 +3,355 @@ import { handleRadioGroupInput } from "./radioGroup";
 import { handleSelectInput } from "./selectInput";
 import { handleCheckboxInput } from "./checkbox";
 import { handleTextInput } from "./textInput";
-import { delay } from "@/utils/commonUtils";
-import { handleDateInput } from "./dateInput";
-import { getSaveButtonId } from "@/utils/aiUtil";
+import { dismissPopup, updateStatus } from "@/utils/commonUtils";
+import {
+  waitForElement,
+  waitForQuiescence,
+  waitForStepChange,
+} from "@/utils/domWaitUtil";
+import { getDateFields, handleDateInput, isDateFilled } from "./dateInput";
+import { setProfileSections } from "@/utils/aiUtil";
+import { getData } from "@/utils/storageUtil";
+import {
+  FieldType,
+  getFieldType,
+  getFieldsetFields,
+  getFieldValue,
+  getLabelledFields,
+  PageField,
+} from "./fields";
+import { fillPageInBatch } from "./batchFill";
+import { fillRepeatableSections } from "./repeatableSection";
+import { getFileUploadFields, handleFileUpload } from "./fileUpload";
+import {
+  getCheckboxGroups,
+  handleCheckboxGroup,
+  isGroupedCheckbox,
+} from "./checkboxGroup";
+import {
+  canRevealFollowUps,
+  describeFollowUp,
+  getFollowUpFields,
+  getFormSection,
+  getSectionInputs,
+} from "./followUp";
+import { classifyStep, getStepStrategy, WorkdayStep } from "./steps";
+import { jumpToStep, verifyReviewStep } from "./review";
+import { isReadyToSubmit, submitApplication } from "./submit";
+import { guardedClick } from "@/utils/buttonUtil";
+import {
+  recordNavigationOutcome,
+  resolveNextButton,
+} from "@/utils/navigationUtil";
 import {
   calculateOverallPercentage,
   getProgressBarStep,
   isLastStep,
 } from "@/utils/progressUtils";
+import {
+  checkpoint,
+  finishRun,
+  getRunLocation,
+  getRunState,
+  isRunStopped,
+  pauseRun,
+  resumeRun,
+  RunState,
+  RunStoppedError,
+  setRunLocation,
+  startRun,
+  stopRun,
+} from "@/utils/runControlUtil";
+import {
+  createRunRecord,
+  getApplicationUrl,
+  isResumable,
+  loadRunRecord,
+  RunRecord,
+  RunResponse,
+  RunStatus,
+  saveRunRecord,
+  shouldAutoResume,
+} from "@/utils/runRecordUtil";
+
+/** How many times a step is refilled after failing validation */
+const MAX_RETRIES_PER_STEP = 3;
+
+/** Longest time for Workday to render the application after a reload */
+const PAGE_RESTORE_TIMEOUT = 15000;
+
+/** Longest time for Workday to show the next step after clicking Next */
+const NAVIGATION_TIMEOUT = 10000;
+
+/** Longest time for Workday to show the follow-up fields of an answer */
+const FOLLOW_UP_TIMEOUT = 1500;
+
+/** How many levels of follow-up fields are filled below a field */
+const MAX_FOLLOW_UP_DEPTH = 2;
+
+/** Persisted state of the current run, replaced when a run starts */
+let runRecord: RunRecord = createRunRecord(
+  getApplicationUrl(location.href),
+  getProgressBarStep()
+);
+
+/** Side panel messages that control a running autofill */
+const runControls: Record<string, () => void> = {
+  stopAutofill: stopRun,
+  pauseAutofill: pauseRun,
+  resumeAutofill: resumeRun,
+};
+
+/**
+ * Describes where on the page the run is, for pause and stop reports.
+ * @param target - What is being worked on (e.g. the field label)
+ */
+function describeLocation(target: string): string {
+  const step = getProgressBarStep();
+  return step ? `${target} (${step})` : target;
+}
 
-let maxRetryCountForCurrentPage = 3;
-let saveButtonDataAutomationId: string | null = null;
-let progressOnCurrentPage = 0;
+/**
+ * Checks whether the user enabled answering a whole step with one LLM call.
+ */
+async function isBatchModeEnabled(): Promise<boolean> {
+  return (await getData("batchMode")) === "true";
+}
+
+/**
+ * Moves the run record to the current step, resetting the per-step state when
+ * the step changed (e.g. after navigating or when a reload landed elsewhere).
+ */
+async function syncRunStep(): Promise<void> {
+  const step = getProgressBarStep();
+  if (runRecord.step !== step) {
+    runRecord.step = step;
+    runRecord.completedFields = [];
+    runRecord.retries = 0;
+    runRecord.progressOnCurrentPage = 0;
+  }
+  await saveRunRecord(runRecord);
+}
+
+/**
+ * Records the value a field shows after it was processed, one answer per
+ * label on each step.
+ */
+async function recordAnswer(
+  inputElement: HTMLElement,
+  labelText: string
+): Promise<void> {
+  if (!runRecord.completedFields.includes(labelText)) {
+    runRecord.completedFields.push(labelText);
+  }
+  const value = getFieldValue(inputElement);
+  if (value) {
+    // A refill (validation retry, resumed run) replaces the earlier answer
+    runRecord.answers = [
+      ...runRecord.answers.filter(
+        ({ step, label }) => step !== runRecord.step || label !== labelText
+      ),
+      { step: runRecord.step, label: labelText, value },
+    ];
+  }
+  await saveRunRecord(runRecord);
+}
 
+/**
+ * Fills the current step with the strategy of its kind and moves on to the
+ * next one. The Review step is verified instead of filled.
+ * @param hasError - Whether the step is refilled after failing validation.
+ */
 async function fillThePage(hasError: boolean = false) {
-  await analyzePageFields(hasError);
-  await analyzeFieldsets(hasError);
+  await syncRunStep();
+
+  const step = classifyStep();
+  const strategy = getStepStrategy(step);
+  setProfileSections(strategy.profileSections);
+  if (step !== WorkdayStep.Unknown) {
+    updateStatus(
+      `Filling ${runRecord.step || step}...`,
+      `Recognized ${step}`,
+      ""
+    );
+  }
+
+  if (strategy.verifiesOnly) {
+    runRecord.discrepancies = await verifyReviewStep(runRecord.answers);
+    return;
+  }
+
+  // Files and entries are added once, retries only revisit the invalid fields
+  if (!hasError && strategy.attachesFiles) {
+    await attachFiles();
+  }
+  const filledInSections =
+    hasError || !strategy.addsEntries
+      ? new Set<HTMLElement>()
+      : await fillRepeatableSections(fillField);
+
+  // A resumed run skips the fields it completed before the reload
+  const completedInputs = hasError
+    ? new Set<HTMLElement>()
+    : getCompletedInputs();
+
+  const filledInBatch = (await isBatchModeEnabled())
+    ? await fillPageInBatch(
+        (field) =>
+          !filledInSections.has(field.inputElement) &&
+          !completedInputs.has(field.inputElement) &&
+          !isGroupedCheckbox(field.inputElement) &&
+          shouldProcessInput(
+            field.inputElement,
+            hasError,
+            field.fieldsetHasError
+          )
+      )
+    : [];
+  for (const { inputElement, labelText } of filledInBatch) {
+    await recordAnswer(inputElement, labelText);
+  }
+
+  const skipInputs = new Set([
+    ...filledInSections,
+    ...completedInputs,
+    ...filledInBatch.map((field) => field.inputElement),
+  ]);
+  await analyzePageFields(hasError, skipInputs);
+  await analyzeFieldsets(hasError, skipInputs);
   await handleNavigation();
 }
 
 /**
- * Analyzes page fields and processes them based on their types and attributes.
- * @param hasError - Indicates whether the function is analyzing the page due to errors.
+ * Finds the inputs of the fields on the step that the run already completed,
+ * by their labels in the run record.
  */
-async function analyzePageFields(hasError: boolean = false): Promise<void> {
-  const labels = Array.from(
-    document.querySelectorAll<HTMLLabelElement>("label")
+function getCompletedInputs(): Set<HTMLElement> {
+  const completedLabels = new Set(runRecord.completedFields);
+  const fields = [
+    ...getLabelledFields(),
+    ...getFieldsetFields(),
+    ...getDateFields(),
+    ...getCheckboxGroups().map((group) => ({
+      labelText: group.question,
+      inputElement: group.fieldset,
+    })),
+  ];
+  return new Set(
+    fields
+      .filter(({ labelText }) => completedLabels.has(labelText))
+      .map(({ inputElement }) => inputElement)
   );
+}
 
-  for (const [i, label] of labels.entries()) {
-    const labelText = label.textContent?.trim() || "";
-    const inputId = label.getAttribute("for");
-    const inputElement = inputId ? document.getElementById(inputId) : null;
+/**
+ * Attaches the stored resume and cover letter to the upload widgets on the
+ * page. Uploading first lets Workday prefill the step from the resume.
+ */
+async function attachFiles(): Promise<void> {
+  for (const field of getFileUploadFields()) {
+    await fillField(field, () =>
+      handleFileUpload(field.inputElement, field.labelText, runRecord.url)
+    );
+  }
+}
 
-    if (!inputElement || !shouldProcessInput(inputElement, hasError)) continue;
+/**
+ * Analyzes page fields and processes them based on their types and attributes.
+ * @param hasError - Indicates whether the function is analyzing the page due to errors.
+ * @param skipInputs - Inputs that were already filled or completed before.
+ */
+async function analyzePageFields(
+  hasError: boolean = false,
+  skipInputs: Set<HTMLElement> = new Set()
+): Promise<void> {
+  const fields = getLabelledFields();
+
+  for (const [i, { labelText, inputElement }] of fields.entries()) {
+    // Checkbox groups are answered as one question with the fieldsets
+    if (
+      skipInputs.has(inputElement) ||
+      isGroupedCheckbox(inputElement) ||
+      !shouldProcessInput(inputElement, hasError)
+    )
+      continue;
 
     await processInputElement(inputElement, labelText);
     if (!hasError) {
-      progressOnCurrentPage = (i / labels.length) * 100;
+      runRecord.progressOnCurrentPage = (i / fields.length) * 100;
     }
   }
 
-  await processDateInputs();
+  await processDateInputs(hasError, skipInputs);
 }
 
 /**
- * Processes all fieldsets and their associated legends on the page.
+ * Processes all fieldsets and their associated legends on the page, answering
+ * each group of checkboxes as a single question.
  * @param hasError - Indicates whether the function is analyzing the page due to errors.
+ * @param skipInputs - Inputs that were already filled or completed before.
  */
-async function analyzeFieldsets(hasError: boolean = false): Promise<void> {
-  const fieldsets = Array.from(
-    document.querySelectorAll<HTMLFieldSetElement>("fieldset")
-  );
+async function analyzeFieldsets(
+  hasError: boolean = false,
+  skipInputs: Set<HTMLElement> = new Set()
+): Promise<void> {
+  for (const group of getCheckboxGroups()) {
+    if (
+      skipInputs.has(group.fieldset) ||
+      group.options.some(({ input }) => skipInputs.has(input)) ||
+      (!hasError && getFieldValue(group.fieldset)) ||
+      !shouldProcessInput(group.fieldset, hasError, group.hasError)
+    )
+      continue;
 
-  for (const fieldset of fieldsets) {
-    const legends = Array.from(
-      fieldset.querySelectorAll<HTMLLegendElement>("legend")
+    await fillField(
+      {
+        labelText: group.question,
+        inputElement: group.fieldset,
+        fieldsetHasError: group.hasError,
+      },
+      () => handleCheckboxGroup(group)
     );
+  }
 
-    const fieldsetHasError = !!fieldset.getAttribute("aria-invalid");
-
-    for (const legend of legends) {
-      const legendText = legend.textContent?.trim() || "";
-      const legendInputId = legend.getAttribute("for");
-      const legendInputElement =
-        legendInputId && document.getElementById(legendInputId);
-
-      if (
-        !legendInputElement ||
-        !shouldProcessInput(legendInputElement, hasError, fieldsetHasError)
-      )
-        continue;
+  for (const {
+    labelText,
+    inputElement,
+    fieldsetHasError,
+  } of getFieldsetFields()) {
+    if (
+      skipInputs.has(inputElement) ||
+      !shouldProcessInput(inputElement, hasError, fieldsetHasError)
+    )
+      continue;
 
-      await processInputElement(legendInputElement, legendText);
+    await processInputElement(inputElement, labelText);
 
-      if (!hasError) {
-        progressOnCurrentPage = 100;
-      }
+    if (!hasError) {
+      runRecord.progressOnCurrentPage = 100;
     }
   }
 }
 
-async function processDateInputs() {
-  const dateInput = document.querySelector<HTMLElement>(
-    '[data-automation-id="dateIcon"]'
-  );
+/**
+ * Processes the date widgets on the page that no label points to, the
+ * labelled ones are filled with the other page fields.
+ * @param hasError - Indicates whether the function is analyzing the page due to errors.
+ * @param skipInputs - Inputs that were already filled or completed before.
+ */
+async function processDateInputs(
+  hasError: boolean = false,
+  skipInputs: Set<HTMLElement> = new Set()
+): Promise<void> {
+  for (const { labelText, inputElement, fieldsetHasError } of getDateFields()) {
+    if (
+      skipInputs.has(inputElement) ||
+      document.querySelector(`label[for="${inputElement.id}"]`) ||
+      !shouldProcessInput(inputElement, hasError, fieldsetHasError)
+    )
+      continue;
 
-  if (dateInput && !dateInput.getAttribute("value")) {
-    await handleDateInput(dateInput, "Date Input");
+    await processInputElement(inputElement, labelText);
   }
 }
 
@@ -123,23 +384,119 @@ async function processInputElement(
   inputElement: HTMLElement,
   labelText: string
 ): Promise<void> {
-  const widgetType = inputElement.getAttribute("data-uxi-widget-type");
-  const inputType = inputElement.getAttribute("type");
-  const isListbox = inputElement.getAttribute("aria-haspopup") === "listbox";
-  if (inputElement.getAttribute("value")) {
+  const fieldType = getFieldType(inputElement);
+  if (
+    inputElement.getAttribute("value") ||
+    (fieldType === FieldType.Date && isDateFilled(inputElement))
+  ) {
     return;
   }
 
-  if (isListbox) {
-    await handleSelectInput(inputElement, labelText);
-  } else if (widgetType === "selectinput") {
-    await handleMultiSelectInput(inputElement, labelText);
-  } else if (widgetType === "radioGroup") {
-    await handleRadioGroupInput(inputElement, labelText);
-  } else if (inputType === "checkbox") {
-    await handleCheckboxInput(inputElement, labelText);
-  } else if (inputType === "text" || inputElement.tagName === "TEXTAREA") {
-    await handleTextInput(inputElement, labelText);
+  await fillField({ inputElement, labelText, fieldsetHasError: false }, () =>
+    fillByType(inputElement, labelText, fieldType)
+  );
+}
+
+/**
+ * Fills a single field between run checkpoints so a pause or stop never
+ * leaves the page half way through a field, and records the answer. Fields
+ * the answer reveals in the same section are filled right after it.
+ * @param field - The field being filled.
+ * @param fill - Performs the DOM actions of the field.
+ * @param depth - How many follow-ups deep the field is.
+ */
+async function fillField(
+  field: PageField,
+  fill: () => Promise<void>,
+  depth: number = 0
+): Promise<void> {
+  const { inputElement, labelText } = field;
+  setRunLocation(describeLocation(labelText));
+  await checkpoint();
+
+  const revealsFollowUps =
+    depth < MAX_FOLLOW_UP_DEPTH && canRevealFollowUps(inputElement);
+  const section = getFormSection(inputElement);
+  const knownInputs = revealsFollowUps
+    ? getSectionInputs(section)
+    : new Set<HTMLElement>();
+
+  await fill();
+
+  if (isRunStopped()) {
+    // Close any dropdown left open by the aborted request
+    dismissPopup(inputElement);
+  } else {
+    await recordAnswer(inputElement, labelText);
+    if (revealsFollowUps) {
+      await fillFollowUps(field, section, knownInputs, depth);
+    }
+  }
+}
+
+/**
+ * Fills the fields an answer revealed (e.g. "Other, please specify"), telling
+ * the handlers which question and answer they follow up on.
+ * @param parent - The field that was answered.
+ * @param section - The form section of the parent.
+ * @param knownInputs - The inputs of the section before the parent was answered.
+ * @param depth - How many follow-ups deep the parent is.
+ */
+async function fillFollowUps(
+  parent: PageField,
+  section: Element | Document,
+  knownInputs: Set<HTMLElement>,
+  depth: number
+): Promise<void> {
+  await waitForQuiescence({ root: section, timeout: FOLLOW_UP_TIMEOUT });
+  const parentValue = getFieldValue(parent.inputElement);
+
+  for (const followUp of getFollowUpFields(section, knownInputs)) {
+    const contextLabel = describeFollowUp(
+      followUp,
+      parent.labelText,
+      parentValue
+    );
+    await fillField(
+      followUp,
+      () =>
+        fillByType(
+          followUp.inputElement,
+          contextLabel,
+          getFieldType(followUp.inputElement)
+        ),
+      depth + 1
+    );
+  }
+}
+
+/**
+ * Fills a field with the handler of its type.
+ */
+async function fillByType(
+  inputElement: HTMLElement,
+  labelText: string,
+  fieldType: FieldType | null
+): Promise<void> {
+  switch (fieldType) {
+    case FieldType.Select:
+      await handleSelectInput(inputElement, labelText);
+      break;
+    case FieldType.MultiSelect:
+      await handleMultiSelectInput(inputElement, labelText);
+      break;
+    case FieldType.RadioGroup:
+      await handleRadioGroupInput(inputElement, labelText);
+      break;
+    case FieldType.Checkbox:
+      await handleCheckboxInput(inputElement, labelText);
+      break;
+    case FieldType.Text:
+      await handleTextInput(inputElement, labelText);
+      break;
+    case FieldType.Date:
+      await handleDateInput(inputElement, labelText);
+      break;
   }
 }
 
@@ -150,55 +507,151 @@ async function handleNavigation(): Promise<void> {
   if (isLastStep()) {
     return;
   }
-  if (maxRetryCountForCurrentPage <= 0) {
-    maxRetryCountForCurrentPage = 3;
+  if (runRecord.retries >= MAX_RETRIES_PER_STEP) {
+    runRecord.retries = 0;
     throw new Error("Max retry count reached for the current page.");
   }
 
-  const saveBtnId = saveButtonDataAutomationId || (await getSaveButtonId());
-
-  saveButtonDataAutomationId = saveBtnId;
-
-  const nextButton = document.querySelector<HTMLButtonElement>(
-    `[data-automation-id="${saveBtnId}"]`
-  );
+  // Submitting is left to the user, confirmed in the side panel
+  if (isReadyToSubmit()) {
+    return;
+  }
 
-  if (!nextButton) {
+  const resolvedButton = await resolveNextButton();
+  if (!resolvedButton) {
     throw Error("Next button not found.");
   }
+  const { button: nextButton, automationId, strategy } = resolvedButton;
+  updateStatus(
+    "Moving to the next step...",
+    `Next button found by ${strategy}`,
+    nextButton.textContent?.trim() || automationId
+  );
 
   const previousStep = getProgressBarStep();
 
-  nextButton.click();
-  await delay(3000);
+  setRunLocation(describeLocation("the next button"));
+  await checkpoint();
+  guardedClick(nextButton);
+  const nextStep = await waitForStepChange(previousStep, {
+    timeout: NAVIGATION_TIMEOUT,
+  });
+  // Let the step render its fields, or the validation errors of this one
+  await waitForQuiescence();
 
-  const currentStep = getProgressBarStep();
+  // Only a button that reached the next step is remembered
+  await recordNavigationOutcome(resolvedButton, !!nextStep);
 
-  if (previousStep === currentStep) {
-    maxRetryCountForCurrentPage--;
+  if (!nextStep) {
+    runRecord.retries++;
     await fillThePage(true);
   } else {
-    maxRetryCountForCurrentPage = 3;
+    runRecord.saveButtonId = automationId || null;
+    runRecord.navigationStrategy = strategy;
+    await fillThePage();
+  }
+}
+
+/**
+ * Runs the autofill, continuing the saved run of this application when asked
+ * to and one exists. The run record is kept up to date so a reload can pick
+ * the run up again.
+ * @param resume - Whether to continue the saved run
+ * @returns The outcome reported to the side panel, an error when a run is
+ * already active
+ */
+async function runAutofill(resume: boolean): Promise<RunResponse> {
+  // Checked before the first await so two starts cannot both get through
+  if (getRunState() !== RunState.Idle) {
+    return { status: "error", error: "An autofill run is already in progress" };
+  }
+  startRun();
+
+  try {
+    const url = getApplicationUrl(location.href);
+    const savedRecord = resume ? await loadRunRecord(url) : null;
+    runRecord =
+      savedRecord && isResumable(savedRecord)
+        ? { ...savedRecord, status: RunStatus.Running, haltedAt: undefined }
+        : createRunRecord(url, getProgressBarStep());
+
     await fillThePage();
+    runRecord.status = RunStatus.Completed;
+    return {
+      status: "done",
+      discrepancies: runRecord.discrepancies,
+      readyToSubmit: isReadyToSubmit(),
+    };
+  } catch (error: any) {
+    runRecord.haltedAt = getRunLocation();
+    if (error instanceof RunStoppedError) {
+      runRecord.status = RunStatus.Stopped;
+      updateStatus("Autofill stopped", error.message, "");
+      return { status: "stopped", location: error.location };
+    }
+    runRecord.status = RunStatus.Failed;
+    return { status: "error", error: error.message };
+  } finally {
+    finishRun();
+    await saveRunRecord(runRecord);
   }
 }
 
+/**
+ * Continues a run that a reload interrupted, telling the side panel about it
+ * since no one asked for this run.
+ */
+async function autoResumeInterruptedRun(): Promise<void> {
+  const savedRecord = await loadRunRecord(getApplicationUrl(location.href));
+  if (!savedRecord || !shouldAutoResume(savedRecord)) {
+    return;
+  }
+
+  await waitForElement('[data-automation-id="progressBarActiveStep"]', {
+    timeout: PAGE_RESTORE_TIMEOUT,
+  });
+  await waitForQuiescence();
+  // The user started a run while the page was restoring
+  if (getRunState() !== RunState.Idle) {
+    return;
+  }
+  chrome.runtime.sendMessage({ action: "runResumed" });
+  const response = await runAutofill(true);
+  chrome.runtime.sendMessage({ action: "runFinished", response });
+}
+
 export default defineContentScript({
   matches: ["https://*.myworkdayjobs.com/*"],
   main() {
     chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       if (message.action === "fillThePage") {
-        fillThePage()
-          .then(() => sendResponse({ status: "done" }))
-          .catch((error) => {
-            sendResponse({ status: "error", error: error.message });
-          });
+        runAutofill(!!message.resume).then(sendResponse);
         return true;
       }
+
+      if (message.action === "jumpToStep") {
+        jumpToStep(message.step).then((reached) => sendResponse({ reached }));
+        return true;
+      }
+
+      // The only path to submitting, started by the user in the side panel
+      if (message.action === "confirmSubmit") {
+        submitApplication().then((submitted) => sendResponse({ submitted }));
+        return true;
+      }
+
+      if (message.action in runControls) {
+        runControls[message.action]();
+        sendResponse({ status: getRunState() });
+      }
     });
 
+    autoResumeInterruptedRun();
+
     setInterval(() => {
-      const overallProgress = calculateOverallPercentage(progressOnCurrentPage);
+      const overallProgress = calculateOverallPercentage(
+        runRecord.progressOnCurrentPage
+      );
       overallProgress &&
         chrome.runtime.sendMessage({
           action: "updateOverallProgress",
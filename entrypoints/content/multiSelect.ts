@@ -1,5 +1,11 @@
-import { generateText } from "@/utils/aiUtil";
-import { delay, updateStatus } from "@/utils/commonUtils";
+import { generateStructured } from "@/utils/aiUtil";
+import {
+  createOptionSchema,
+  enumProperty,
+  StructuredSchema,
+} from "@/utils/schemaUtil";
+import { dismissPopup, updateStatus } from "@/utils/commonUtils";
+import { waitFor } from "@/utils/domWaitUtil";
 import { getProgressBarStep } from "@/utils/progressUtils";
 
 /**
@@ -9,7 +15,7 @@ import { getProgressBarStep } from "@/utils/progressUtils";
  * @property {string | null} optionId - The unique identifier of the option
  * @property {Element} element - The DOM element representing the option
  */
-interface MultiSelectOption {
+export interface MultiSelectOption {
   optionText: string | null;
   optionId: string | null;
 }
@@ -25,17 +31,41 @@ interface AIResponse {
   optionId: string;
 }
 
+/**
+ * Structure of the AI response for prompts that take several options
+ * @interface MultipleSelectionResponse
+ * @property {string} reason - Explanation for why the options were selected
+ * @property {string[]} optionIds - The IDs of the selected options
+ */
+interface MultipleSelectionResponse {
+  reason: string;
+  optionIds: string[];
+}
+
 /**
  * Enum representing the types of multi-select controls
  * @enum {string}
  */
 enum MultiSelectType {
-  /** Single-level selection */
+  /** Option that is selected when clicked */
   Single = "1",
-  /** Two-level nested selection */
+  /** Option that opens another level of options when clicked */
   Nested = "2",
 }
 
+/**
+ * Extra context for the option selection prompt
+ * @interface PromptContext
+ * @property {string} [noMatchHint] - When the model may answer NO_MATCH, what
+ * the options are and what answering it does
+ * @property {MultiSelectOption[]} [path] - The options chosen on the levels
+ * above the current one
+ */
+interface PromptContext {
+  noMatchHint?: string;
+  path?: MultiSelectOption[];
+}
+
 /**
  * Custom error class for multi-select related errors
  * @class MultiSelectError
@@ -52,47 +82,177 @@ class MultiSelectError extends Error {
   }
 }
 
-/** Constants used throughout the module */
-const DELAY_MS = 2000;
+/**
+ * Structure of the AI response with the terms to search a prompt for
+ * @interface SearchTermsResponse
+ * @property {string} reason - Explanation for the chosen terms
+ * @property {string[][]} values - The search terms of each value to select,
+ * the most specific first
+ */
+interface SearchTermsResponse {
+  reason: string;
+  values: string[][];
+}
+
+/** Longest time for a prompt to show or change its options in milliseconds */
+const PROMPT_TIMEOUT_MS = 2000;
+/** Number of alternate terms tried before a search prompt is given up */
+const MAX_SEARCH_TERMS = 3;
+/** Longest time to wait for the results of a search in milliseconds */
+const SEARCH_TIMEOUT_MS = 6000;
+/** Option id the model answers with when no option fits */
+const NO_MATCH = "none";
+/** Maximum number of levels followed down a hierarchical prompt */
+const MAX_DEPTH = 6;
+/** Number of times a hierarchical prompt is walked back before giving up */
+const MAX_BACKTRACKS = 3;
+/** Maximum number of options selected in prompts that take several */
+const MAX_SELECTIONS = 10;
+/** Longest time for a pill to show or go after a click in milliseconds */
+const SELECTION_TIMEOUT_MS = 2000;
+/** Labels of prompts that take several options */
+const MULTIPLE_SELECTION_LABEL =
+  /select all|all that apply|one or more|multiple|skills/i;
 /** DOM selectors used for finding elements */
 const SELECTORS = {
   MULTISELECT_ITEM: 'data-uxi-widget-type="multiselectlistitem"',
   PROMPT_OPTION: '[data-automation-id="promptOption"]',
+  FORM_FIELD: '[data-automation-id^="formField"]',
+  SELECTED_ITEM: '[data-automation-id="selectedItem"]',
+  DELETE_CHARM: '[data-automation-id="DELETE_charm"]',
+  BACK_BUTTON:
+    '[data-automation-id="promptBackButton"], [data-automation-id="backButton"]',
 } as const;
 
 /**
  * Handles the interaction with a multi-select input element
  * @param {HTMLElement} inputElement - The input element to interact with
  * @param {string} labelText - The label text associated with the input
- * @param {string[]} processedLabels - Array of labels that have been processed so far
+ * @param {string} [presetOptionId] - A top level option id that was already chosen (e.g. by the page batch)
  * @throws {MultiSelectError} When input validation fails or interaction errors occur
  * @returns {Promise<void>}
  */
 export async function handleMultiSelectInput(
   inputElement: HTMLElement,
-  labelText: string
+  labelText: string,
+  presetOptionId?: string
 ): Promise<void> {
   try {
     validateInputs(inputElement, labelText);
 
-    inputElement.click();
-    await delay(DELAY_MS);
+    const controlId = await openPrompt(inputElement);
+    const maxSelections = allowsMultipleSelections(labelText)
+      ? MAX_SELECTIONS
+      : 1;
+    if (!hasOptions(controlId)) {
+      // Search driven prompts only show options once something is typed
+      await handleSearchSelection(
+        inputElement,
+        controlId,
+        labelText,
+        maxSelections
+      );
+      return;
+    }
 
-    const controlId = getControlId(inputElement);
     const options = getOptions(controlId);
-    const multiselectType = getMultiSelectType(options[0]);
-
-    const primaryOptionId = await selectOption(options, labelText);
-    await clickOption(primaryOptionId);
-
-    if (multiselectType === MultiSelectType.Nested) {
-      await handleNestedSelection(controlId, labelText);
+    if (options.some(isNestedOption)) {
+      const leaf = await walkHierarchy(
+        inputElement,
+        controlId,
+        labelText,
+        [],
+        presetOptionId
+      );
+      if (!leaf) {
+        throw new MultiSelectError(
+          `No suitable option found for ${labelText}.`,
+          "NO_SUITABLE_BRANCH"
+        );
+      }
+      return;
     }
+
+    const optionsData = parseOptions(options);
+    const presetOption = getPresetOption(
+      optionsData,
+      labelText,
+      presetOptionId
+    );
+    const optionIds = presetOption
+      ? [presetOption]
+      : maxSelections > 1
+        ? await selectOptions(optionsData, labelText, maxSelections)
+        : [await selectOption(options, labelText)];
+    await applySelections(
+      inputElement,
+      optionsData.filter(
+        (opt) => opt.optionId && optionIds.includes(opt.optionId)
+      )
+    );
   } catch (error) {
     handleError(error);
   }
 }
 
+/**
+ * Checks whether a prompt takes several options, judging by its label
+ * @param {string} labelText - The label text of the prompt
+ * @returns {boolean} True when several options may be selected
+ */
+export function allowsMultipleSelections(labelText: string): boolean {
+  return MULTIPLE_SELECTION_LABEL.test(labelText);
+}
+
+/**
+ * Opens the prompt, reads its top level options and closes it again
+ * @param {HTMLElement} inputElement - The multi-select input element
+ * @returns {Promise<MultiSelectOption[] | null>} The options, or null when they
+ * are nested or only shown after a search, and cannot be answered without
+ * navigating the prompt
+ * @throws {MultiSelectError} When the options cannot be read
+ */
+export async function readMultiSelectOptions(
+  inputElement: HTMLElement
+): Promise<MultiSelectOption[] | null> {
+  const controlId = await openPrompt(inputElement);
+  try {
+    if (!hasOptions(controlId)) {
+      return null;
+    }
+    const options = getOptions(controlId);
+    return options.some(isNestedOption) ? null : parseOptions(options);
+  } finally {
+    dismissPopup(inputElement);
+  }
+}
+
+/**
+ * Returns the preset option id when it matches one of the options
+ * @param {MultiSelectOption[]} optionsData - Available options
+ * @param {string} labelText - The label text of the field
+ * @param {string} [presetOptionId] - The preset option id
+ * @returns {string | null} The preset option id, or null when it is not usable
+ */
+function getPresetOption(
+  optionsData: MultiSelectOption[],
+  labelText: string,
+  presetOptionId?: string
+): string | null {
+  if (
+    !presetOptionId ||
+    !optionsData.some((opt) => opt.optionId === presetOptionId)
+  ) {
+    return null;
+  }
+  updateStatus(
+    `Filling input ${labelText}...`,
+    "Answered together with the other fields on this step",
+    presetOptionId
+  );
+  return presetOptionId;
+}
+
 /**
  * Validates the input parameters
  * @param {HTMLElement} inputElement - The input element to validate
@@ -142,6 +302,80 @@ function getOptions(controlId: string): Element[] {
   return options;
 }
 
+/**
+ * Opens the prompt of an input and waits for its options. Prompts that only
+ * list options after a search stay empty until the timeout.
+ * @param {HTMLElement} inputElement - The multi-select input element
+ * @returns {Promise<string>} The control ID of the prompt
+ * @throws {MultiSelectError} When the control ID is missing
+ */
+async function openPrompt(inputElement: HTMLElement): Promise<string> {
+  const controlId = getControlId(inputElement);
+  inputElement.click();
+  await waitFor(() => hasOptions(controlId), { timeout: PROMPT_TIMEOUT_MS });
+  return controlId;
+}
+
+/**
+ * Returns the IDs of the options a prompt shows, to notice when they change
+ * @param {string} controlId - The control ID of the prompt
+ * @returns {string} The option IDs joined, empty when there are none
+ */
+function getOptionIds(controlId: string): string {
+  return hasOptions(controlId)
+    ? parseOptions(getOptions(controlId))
+        .map((opt) => opt.optionId)
+        .join()
+    : "";
+}
+
+/**
+ * Waits for a prompt to replace its options, e.g. after opening a level
+ * @param {string} controlId - The control ID of the prompt
+ * @param {string} previousIds - The option IDs before, see getOptionIds
+ * @param {number} [timeout] - Longest time to wait in milliseconds
+ * @returns {Promise<boolean>} Whether new options are shown
+ */
+async function waitForOptionsChange(
+  controlId: string,
+  previousIds: string,
+  timeout = PROMPT_TIMEOUT_MS
+): Promise<boolean> {
+  const changed = await waitFor(
+    () => hasOptions(controlId) && getOptionIds(controlId) !== previousIds,
+    { timeout }
+  );
+  return !!changed;
+}
+
+/**
+ * Waits for the pill of an option to appear after it was clicked
+ * @param {HTMLElement} inputElement - The multi-select input element
+ * @param {MultiSelectOption} option - The clicked option
+ * @returns {Promise<void>}
+ */
+async function waitForPill(
+  inputElement: HTMLElement,
+  option: MultiSelectOption
+): Promise<void> {
+  await waitFor(
+    () =>
+      getSelectedPills(inputElement).some((pill) => pillMatches(pill, option)),
+    { timeout: SELECTION_TIMEOUT_MS }
+  );
+}
+
+/**
+ * Checks whether the prompt of a control currently shows any options
+ * @param {string} controlId - The control ID to check
+ * @returns {boolean} True when at least one option is shown
+ */
+function hasOptions(controlId: string): boolean {
+  return !!document.querySelector(
+    `[${SELECTORS.MULTISELECT_ITEM}][data-uxi-multiselect-id="${controlId}"]`
+  );
+}
+
 /**
  * Determines the type of multi-select from an element
  * @param {Element} element - Element containing the type information
@@ -155,21 +389,533 @@ function getMultiSelectType(element: Element): MultiSelectType {
 }
 
 /**
- * Handles the selection of nested options
- * @param {string} controlId - The control ID for the nested selection
- * @param {string} labelText - The label text to use for selection
- * @param {string[]} processedLabels - Previously processed labels
+ * Checks whether an option opens another level of options
+ * @param {Element} element - The option element
+ * @returns {boolean} True when the option is nested
+ */
+function isNestedOption(element: Element): boolean {
+  return getMultiSelectType(element) === MultiSelectType.Nested;
+}
+
+/**
+ * Finds the element of an option by its ID
+ * @param {Element[]} options - The option elements
+ * @param {string} optionId - The ID of the option
+ * @returns {Element | undefined} The option element
+ */
+function findOptionElement(
+  options: Element[],
+  optionId: string
+): Element | undefined {
+  return options.find(
+    (element) => element.querySelector(SELECTORS.PROMPT_OPTION)?.id === optionId
+  );
+}
+
+/**
+ * Walks down a hierarchical prompt (e.g. Source > Job Board > LinkedIn),
+ * choosing an option on each level until a selectable one is clicked. When no
+ * option of a level fits, it goes back up and tries another branch.
+ * @param {HTMLElement} inputElement - The multi-select input element
+ * @param {string} controlId - The control ID of the prompt
+ * @param {string} labelText - The label text to base the selection on
+ * @param {MultiSelectOption[]} [startPath] - Nested options already clicked
+ * before the walk, it never goes back above them
+ * @param {string} [presetOptionId] - An option id chosen for the first level
+ * @returns {Promise<MultiSelectOption | null>} The selected option, or null
+ * when nothing below the start path fits
+ * @throws {MultiSelectError} When the walk goes too deep or back too often
+ */
+async function walkHierarchy(
+  inputElement: HTMLElement,
+  controlId: string,
+  labelText: string,
+  startPath: MultiSelectOption[] = [],
+  presetOptionId?: string
+): Promise<MultiSelectOption | null> {
+  const path = [...startPath];
+  const rejectedIds = new Set<string>();
+  let backtracks = 0;
+
+  while (true) {
+    const options = getOptions(controlId).filter((element) => {
+      const optionId = element.querySelector(SELECTORS.PROMPT_OPTION)?.id;
+      return optionId && !rejectedIds.has(optionId);
+    });
+    const optionsData = parseOptions(options);
+    const canGoBack = path.length > 0;
+
+    let optionId =
+      path.length === startPath.length
+        ? getPresetOption(optionsData, labelText, presetOptionId)
+        : null;
+    if (!optionId && optionsData.length) {
+      optionId = canGoBack
+        ? await selectOptionOrNone(optionsData, labelText, {
+            noMatchHint: `The options are one level of a hierarchy. Answer with "${NO_MATCH}" as the optionId when none of them leads to the value the user needs, to go back a level.`,
+            path,
+          })
+        : await selectOption(options, labelText, path);
+    }
+
+    if (!optionId) {
+      if (path.length <= startPath.length) {
+        return null;
+      }
+      if (++backtracks > MAX_BACKTRACKS) {
+        throw new MultiSelectError(
+          `Gave up on ${labelText} after going back ${MAX_BACKTRACKS} times.`,
+          "TOO_MANY_BACKTRACKS"
+        );
+      }
+      rejectedIds.add(path.pop()!.optionId!);
+      await goBack(inputElement, controlId, path);
+      continue;
+    }
+
+    const option = optionsData.find((opt) => opt.optionId === optionId)!;
+    const isNested = isNestedOption(findOptionElement(options, optionId)!);
+    const levelIds = getOptionIds(controlId);
+    await clickOption(optionId);
+    path.push(option);
+
+    if (!isNested) {
+      updateStatus(
+        `Filling input ${labelText}...`,
+        "Followed the levels of the prompt",
+        path.map((opt) => opt.optionText).join(" > ")
+      );
+      return option;
+    }
+    if (path.length >= MAX_DEPTH) {
+      throw new MultiSelectError(
+        `${labelText} is nested deeper than ${MAX_DEPTH} levels.`,
+        "TOO_DEEP"
+      );
+    }
+    await waitForOptionsChange(controlId, levelIds);
+  }
+}
+
+/**
+ * Goes back one level in a hierarchical prompt, using its back button or by
+ * reopening the prompt and clicking down the remaining path
+ * @param {HTMLElement} inputElement - The multi-select input element
+ * @param {string} controlId - The control ID of the prompt
+ * @param {MultiSelectOption[]} path - The options that stay chosen
  * @returns {Promise<void>}
  */
-async function handleNestedSelection(
+async function goBack(
+  inputElement: HTMLElement,
   controlId: string,
-  labelText: string
+  path: MultiSelectOption[]
+): Promise<void> {
+  const backButton = document.querySelector<HTMLElement>(SELECTORS.BACK_BUTTON);
+  if (backButton) {
+    const levelIds = getOptionIds(controlId);
+    backButton.click();
+    await waitForOptionsChange(controlId, levelIds);
+    return;
+  }
+
+  dismissPopup(inputElement);
+  await openPrompt(inputElement);
+  for (const option of path) {
+    const levelIds = getOptionIds(controlId);
+    await clickOption(option.optionId!);
+    await waitForOptionsChange(controlId, levelIds);
+  }
+}
+
+/**
+ * Returns the pills of the options currently selected in a prompt
+ * @param {HTMLElement} inputElement - The multi-select input element
+ * @returns {Element[]} The pill elements
+ */
+function getSelectedPills(inputElement: HTMLElement): Element[] {
+  const formField =
+    inputElement.closest(SELECTORS.FORM_FIELD) || inputElement.parentElement;
+  return Array.from(formField?.querySelectorAll(SELECTORS.SELECTED_ITEM) || []);
+}
+
+/**
+ * Lowercases an option or pill text and reduces it to its words, separated by
+ * single spaces
+ * @param {string | null | undefined} text - The text to normalize
+ * @returns {string} The normalized text
+ */
+function normalizeText(text: string | null | undefined): string {
+  return (text || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Checks whether a pill shows the given option. Only the option label of the
+ * pill is compared, so "Java" matches neither "JavaScript" nor "Core Java".
+ * @param {Element} pill - The pill element
+ * @param {MultiSelectOption} option - The option to look for
+ * @returns {boolean} True when the pill belongs to the option
+ */
+function pillMatches(pill: Element, option: MultiSelectOption): boolean {
+  const pillLabel = pill.querySelector(SELECTORS.PROMPT_OPTION) || pill;
+  const pillText = normalizeText(pillLabel.textContent);
+  const optionText = normalizeText(option.optionText);
+  return !!optionText && pillText === optionText;
+}
+
+/**
+ * Selects the given options of a flat prompt, skipping those already shown as
+ * pills, then removes wrong pills and verifies the result
+ * @param {HTMLElement} inputElement - The multi-select input element
+ * @param {MultiSelectOption[]} selections - The options to select
+ * @returns {Promise<void>}
+ * @throws {MultiSelectError} When an option does not show up as selected
+ */
+async function applySelections(
+  inputElement: HTMLElement,
+  selections: MultiSelectOption[]
+): Promise<void> {
+  for (const option of selections) {
+    // Clicking a selected option again would deselect it
+    if (
+      getSelectedPills(inputElement).some((pill) => pillMatches(pill, option))
+    ) {
+      continue;
+    }
+    // Prompts taking a single option close after each click
+    if (!document.getElementById(option.optionId!)) {
+      await openPrompt(inputElement);
+    }
+    await clickOption(option.optionId!);
+    await waitForPill(inputElement, option);
+  }
+
+  await removeWrongPills(inputElement, selections);
+  if (selections.length > 1) {
+    dismissPopup(inputElement);
+  }
+  verifySelections(inputElement, selections);
+}
+
+/**
+ * Removes the pills of options that were not chosen
+ * @param {HTMLElement} inputElement - The multi-select input element
+ * @param {MultiSelectOption[]} selections - The chosen options
+ * @returns {Promise<void>}
+ */
+async function removeWrongPills(
+  inputElement: HTMLElement,
+  selections: MultiSelectOption[]
 ): Promise<void> {
-  await delay(DELAY_MS);
+  for (const pill of getSelectedPills(inputElement)) {
+    if (selections.some((option) => pillMatches(pill, option))) continue;
 
-  const subOptions = getOptions(controlId);
-  const subOptionId = await selectOption(subOptions, labelText);
-  await clickOption(subOptionId);
+    const deleteCharm = pill.querySelector<HTMLElement>(SELECTORS.DELETE_CHARM);
+    if (deleteCharm) {
+      updateStatus(
+        "Removing a wrong selection...",
+        "The option was not chosen for this field",
+        pill.textContent?.trim() ?? ""
+      );
+      deleteCharm.click();
+      await waitFor(() => !pill.isConnected, {
+        timeout: SELECTION_TIMEOUT_MS,
+      });
+    }
+  }
+}
+
+/**
+ * Verifies that every chosen option is shown as a selected pill
+ * @param {HTMLElement} inputElement - The multi-select input element
+ * @param {MultiSelectOption[]} selections - The chosen options
+ * @throws {MultiSelectError} When an option is not shown as selected
+ */
+function verifySelections(
+  inputElement: HTMLElement,
+  selections: MultiSelectOption[]
+): void {
+  const pills = getSelectedPills(inputElement);
+  const missing = selections.filter(
+    (option) =>
+      option.optionText && !pills.some((pill) => pillMatches(pill, option))
+  );
+
+  if (missing.length) {
+    throw new MultiSelectError(
+      `Not shown as selected: ${missing
+        .map((opt) => opt.optionText)
+        .join(", ")}.`,
+      "SELECTION_NOT_VERIFIED"
+    );
+  }
+}
+
+/**
+ * Fills a prompt that shows no options until searched: asks the model for
+ * search terms, searches for each value in turn and picks the best matching
+ * result, then removes wrong pills and verifies the selection
+ * @param {HTMLElement} inputElement - The search box of the prompt
+ * @param {string} controlId - The control ID of the prompt
+ * @param {string} labelText - The label text to base the search on
+ * @param {number} maxSelections - The number of values the prompt takes
+ * @returns {Promise<void>}
+ * @throws {MultiSelectError} When no search result matches
+ */
+async function handleSearchSelection(
+  inputElement: HTMLElement,
+  controlId: string,
+  labelText: string,
+  maxSelections: number
+): Promise<void> {
+  if (!(inputElement instanceof HTMLInputElement)) {
+    throw new MultiSelectError("Search box not found.", "NO_SEARCH_BOX");
+  }
+
+  const selections: MultiSelectOption[] = [];
+  for (const terms of await generateSearchTerms(labelText, maxSelections)) {
+    const selection = await searchAndSelect(
+      inputElement,
+      controlId,
+      labelText,
+      terms
+    );
+    if (selection) {
+      selections.push(selection);
+    }
+  }
+
+  searchFor(inputElement, "");
+  dismissPopup(inputElement);
+  if (!selections.length) {
+    throw new MultiSelectError(
+      `No search result matched ${labelText}.`,
+      "NO_SEARCH_MATCH"
+    );
+  }
+
+  await removeWrongPills(inputElement, selections);
+  verifySelections(inputElement, selections);
+}
+
+/**
+ * Searches a prompt for one value, trying alternate terms until a result fits
+ * @param {HTMLInputElement} searchBox - The search box of the prompt
+ * @param {string} controlId - The control ID of the prompt
+ * @param {string} labelText - The label text of the prompt
+ * @param {string[]} terms - The terms of the value, most specific first
+ * @returns {Promise<MultiSelectOption | null>} The selected option, or null
+ * when no result fits
+ */
+async function searchAndSelect(
+  searchBox: HTMLInputElement,
+  controlId: string,
+  labelText: string,
+  terms: string[]
+): Promise<MultiSelectOption | null> {
+  for (const term of terms) {
+    updateStatus(
+      `Searching ${labelText}...`,
+      "The prompt only lists options matching a search",
+      term
+    );
+    const results = await searchOptions(searchBox, controlId, term);
+    if (!results.length) continue;
+
+    const optionId = await selectSearchResult(results, labelText, term);
+    if (!optionId) continue;
+
+    const option = parseOptions(results).find(
+      (opt) => opt.optionId === optionId
+    )!;
+    // Clicking a selected option again would deselect it
+    if (getSelectedPills(searchBox).some((pill) => pillMatches(pill, option))) {
+      return option;
+    }
+
+    const resultIds = getOptionIds(controlId);
+    await clickOption(optionId);
+    if (isNestedOption(findOptionElement(results, optionId)!)) {
+      await waitForOptionsChange(controlId, resultIds);
+      const leaf = await walkHierarchy(searchBox, controlId, labelText, [
+        option,
+      ]);
+      if (!leaf) continue;
+      return leaf;
+    }
+    await waitForPill(searchBox, option);
+    return option;
+  }
+
+  return null;
+}
+
+/**
+ * Uses AI to come up with the terms to search a prompt for
+ * @param {string} labelText - The label text of the prompt
+ * @param {number} maxValues - The number of values the prompt takes
+ * @returns {Promise<string[][]>} The terms of each value, up to
+ * MAX_SEARCH_TERMS each with the most specific first
+ * @throws {MultiSelectError} When AI generation fails
+ */
+async function generateSearchTerms(
+  labelText: string,
+  maxValues: number
+): Promise<string[][]> {
+  try {
+    const completion = await generateStructured<SearchTermsResponse>(
+      buildSearchTermsSchema(maxValues),
+      generateSearchPrompt(labelText, maxValues),
+      true,
+      labelText
+    );
+    return completion.values
+      .slice(0, maxValues)
+      .map((terms) =>
+        terms
+          .map((term) => term.trim())
+          .filter(Boolean)
+          .slice(0, MAX_SEARCH_TERMS)
+      )
+      .filter((terms) => terms.length);
+  } catch (error: any) {
+    throw new MultiSelectError(
+      `AI search terms failed: ${error.message}`,
+      "AI_SEARCH_TERMS_FAILED"
+    );
+  }
+}
+
+/**
+ * Types a term into the search box of a prompt and submits it
+ * @param {HTMLInputElement} searchBox - The search box
+ * @param {string} term - The term to search for
+ */
+function searchFor(searchBox: HTMLInputElement, term: string): void {
+  const setValue = Object.getOwnPropertyDescriptor(
+    HTMLInputElement.prototype,
+    "value"
+  )?.set;
+
+  searchBox.focus();
+  if (setValue) {
+    setValue.call(searchBox, term);
+  } else {
+    searchBox.value = term;
+  }
+  searchBox.dispatchEvent(new Event("input", { bubbles: true }));
+  if (term) {
+    for (const type of ["keydown", "keyup"]) {
+      searchBox.dispatchEvent(
+        new KeyboardEvent(type, {
+          bubbles: true,
+          key: "Enter",
+          code: "Enter",
+          keyCode: 13,
+        })
+      );
+    }
+  }
+}
+
+/**
+ * Searches a prompt and waits for its results to load
+ * @param {HTMLInputElement} searchBox - The search box of the prompt
+ * @param {string} controlId - The control ID of the prompt
+ * @param {string} term - The term to search for
+ * @returns {Promise<Element[]>} The results, empty when nothing was found in time
+ */
+async function searchOptions(
+  searchBox: HTMLInputElement,
+  controlId: string,
+  term: string
+): Promise<Element[]> {
+  const previousIds = getOptionIds(controlId);
+
+  searchFor(searchBox, term);
+
+  // Results of the previous term stay until the new ones have loaded
+  await waitForOptionsChange(controlId, previousIds, SEARCH_TIMEOUT_MS);
+  return hasOptions(controlId) ? getOptions(controlId) : [];
+}
+
+/**
+ * Picks the search result matching the term exactly, or lets the model choose
+ * @param {Element[]} results - The search results
+ * @param {string} labelText - The label text of the prompt
+ * @param {string} term - The term that was searched for
+ * @returns {Promise<string | null>} The option id, or null when no result fits
+ */
+async function selectSearchResult(
+  results: Element[],
+  labelText: string,
+  term: string
+): Promise<string | null> {
+  const optionsData = parseOptions(results);
+  const exactMatch = optionsData.find(
+    (opt) =>
+      opt.optionId && opt.optionText?.toLowerCase() === term.toLowerCase()
+  );
+  if (exactMatch) {
+    updateStatus(
+      `Filling input ${labelText}...`,
+      "The search result matches the search term exactly",
+      exactMatch.optionText ?? ""
+    );
+    return exactMatch.optionId;
+  }
+
+  return selectOptionOrNone(optionsData, labelText, {
+    noMatchHint: `The options are search results. Answer with "${NO_MATCH}" as the optionId when none of them is the value the user needs.`,
+  });
+}
+
+/**
+ * Uses AI to select the most appropriate option, allowing it to answer that
+ * none of them fits
+ * @param {MultiSelectOption[]} optionsData - Available options to choose from
+ * @param {string} labelText - The label text to base the selection on
+ * @param {PromptContext} context - What the options are and the path so far
+ * @returns {Promise<string | null>} The option id, or null when no option fits
+ * @throws {MultiSelectError} When AI selection fails
+ */
+async function selectOptionOrNone(
+  optionsData: MultiSelectOption[],
+  labelText: string,
+  context: PromptContext
+): Promise<string | null> {
+  try {
+    const completion = await generateStructured<AIResponse>(
+      createOptionSchema("multiselect_option_or_none", "optionId", [
+        ...optionsData
+          .map((opt) => opt.optionId)
+          .filter((id): id is string => id !== null),
+        NO_MATCH,
+      ]),
+      generatePrompt(labelText, optionsData, context),
+      true,
+      labelText
+    );
+
+    updateStatus(
+      `Filling input ${labelText}...`,
+      completion.reason,
+      completion.optionId
+    );
+
+    if (completion.optionId === NO_MATCH) {
+      return null;
+    }
+    validateAIResponse(completion, optionsData);
+    return completion.optionId.trim();
+  } catch (error: any) {
+    throw new MultiSelectError(
+      `AI selection failed: ${error.message}`,
+      "AI_SELECTION_FAILED"
+    );
+  }
 }
 
 /**
@@ -193,20 +939,25 @@ async function clickOption(optionId: string): Promise<void> {
  * Uses AI to select the most appropriate option from a list
  * @param {Element[]} options - Available options to choose from
  * @param {string} labelText - The label text to base the selection on
- * @param {string[]} processedLabels - Previously processed labels
+ * @param {MultiSelectOption[]} [path] - The options chosen on the levels above
  * @returns {Promise<string>} The ID of the selected option
  * @throws {MultiSelectError} When AI selection fails
  */
 async function selectOption(
   options: Element[],
-  labelText: string
+  labelText: string,
+  path: MultiSelectOption[] = []
 ): Promise<string> {
   const optionsData = parseOptions(options);
 
   try {
-    const prompt = generatePrompt(labelText, optionsData);
-    const aiResponse = await generateText(prompt, true);
-    const completion = parseAIResponse(aiResponse);
+    const prompt = generatePrompt(labelText, optionsData, { path });
+    const completion = await generateStructured<AIResponse>(
+      buildResponseSchema(optionsData),
+      prompt,
+      true,
+      labelText
+    );
 
     updateStatus(
       `Filling input ${labelText}...`,
@@ -225,6 +976,51 @@ async function selectOption(
   }
 }
 
+/**
+ * Uses AI to select every fitting option of a prompt that takes several
+ * @param {MultiSelectOption[]} optionsData - Available options to choose from
+ * @param {string} labelText - The label text to base the selection on
+ * @param {number} maxSelections - The maximum number of options to select
+ * @returns {Promise<string[]>} The IDs of the selected options
+ * @throws {MultiSelectError} When AI selection fails
+ */
+async function selectOptions(
+  optionsData: MultiSelectOption[],
+  labelText: string,
+  maxSelections: number
+): Promise<string[]> {
+  try {
+    const completion = await generateStructured<MultipleSelectionResponse>(
+      buildMultipleResponseSchema(optionsData, maxSelections),
+      generateMultiplePrompt(labelText, optionsData, maxSelections),
+      true,
+      labelText
+    );
+
+    updateStatus(
+      `Filling input ${labelText}...`,
+      completion.reason,
+      completion.optionIds.join(", ")
+    );
+
+    const optionIds = Array.from(
+      new Set(completion.optionIds.map((id) => id.trim()))
+    ).slice(0, maxSelections);
+    for (const optionId of optionIds) {
+      validateAIResponse({ reason: completion.reason, optionId }, optionsData);
+    }
+    if (!optionIds.length) {
+      throw new Error("No optionIds in AI response");
+    }
+    return optionIds;
+  } catch (error: any) {
+    throw new MultiSelectError(
+      `AI selection failed: ${error.message}`,
+      "AI_SELECTION_FAILED"
+    );
+  }
+}
+
 /**
  * Parses DOM elements into MultiSelectOption objects
  * @param {Element[]} options - The elements to parse
@@ -237,19 +1033,129 @@ function parseOptions(options: Element[]): MultiSelectOption[] {
   }));
 }
 
+/**
+ * Builds the response schema with the optionId constrained to the scraped options
+ * @param {MultiSelectOption[]} optionsData - Available options
+ * @returns {StructuredSchema} The response schema
+ */
+function buildResponseSchema(
+  optionsData: MultiSelectOption[]
+): StructuredSchema {
+  return createOptionSchema(
+    "multiselect_option",
+    "optionId",
+    optionsData
+      .map((opt) => opt.optionId)
+      .filter((id): id is string => id !== null)
+  );
+}
+
+/**
+ * Builds the response schema with an array of optionIds constrained to the
+ * scraped options
+ * @param {MultiSelectOption[]} optionsData - Available options
+ * @param {number} maxSelections - The maximum number of options to select
+ * @returns {StructuredSchema} The response schema
+ */
+function buildMultipleResponseSchema(
+  optionsData: MultiSelectOption[],
+  maxSelections: number
+): StructuredSchema {
+  return {
+    name: "multiselect_options",
+    schema: {
+      type: "object",
+      properties: {
+        reason: { type: "string" },
+        optionIds: {
+          type: "array",
+          items: enumProperty(
+            optionsData
+              .map((opt) => opt.optionId)
+              .filter((id): id is string => id !== null)
+          ),
+          minItems: 1,
+          maxItems: maxSelections,
+        },
+      },
+      required: ["reason", "optionIds"],
+      additionalProperties: false,
+    },
+  };
+}
+
+/**
+ * Builds the schema for the search terms of prompts that have to be searched
+ * @param {number} maxValues - The number of values the prompt takes
+ * @returns {StructuredSchema} The response schema
+ */
+function buildSearchTermsSchema(maxValues: number): StructuredSchema {
+  return {
+    name: "multiselect_search_terms",
+    schema: {
+      type: "object",
+      properties: {
+        reason: { type: "string" },
+        values: {
+          type: "array",
+          items: {
+            type: "array",
+            items: { type: "string" },
+            maxItems: MAX_SEARCH_TERMS,
+          },
+          maxItems: maxValues,
+        },
+      },
+      required: ["reason", "values"],
+      additionalProperties: false,
+    },
+  };
+}
+
+/**
+ * Generates the prompt asking for the terms to search a prompt for
+ * @param {string} labelText - The label text to use in the prompt
+ * @param {number} maxValues - The number of values the prompt takes
+ * @returns {string} The generated prompt
+ */
+function generateSearchPrompt(labelText: string, maxValues: number): string {
+  return `
+    Your task is to search a form field that only lists options matching a search (e.g. a school, field of study, skill or country), using the provided saved data of the user.
+
+    ### Instructions:
+    1. Carefully analyze the **label text** and find ${
+      maxValues > 1
+        ? `every value that applies to the user in the saved data, at most ${maxValues}`
+        : "the value the user would choose in the saved data"
+    }.
+    2. For each value return up to ${MAX_SEARCH_TERMS} search terms, the most specific first (e.g. the full official name), followed by shorter or alternate names (e.g. a common abbreviation or a broader term).
+    3. Keep every term short, as the search matches the text of the options.
+    4. Return an empty list when the saved data does not tell you any value.
+    5. Return a **JSON object** in this below structure:
+      { "reason": "reason for the search terms", "values": [["term", "alternate term"]] }
+
+    ### Inputs:
+    - **Label Text**: ${labelText}
+    - **${getProgressBarStep()}**
+
+    Respond only with the JSON object.
+  `;
+}
+
 /**
  * Generates the prompt for the AI model
  * @param {string} labelText - The label text to use in the prompt
- * @param {string[]} processedLabels - Previously processed labels
  * @param {MultiSelectOption[]} optionsData - Available options
+ * @param {PromptContext} [context] - What the options are and the path so far
  * @returns {string} The generated prompt
  */
 function generatePrompt(
   labelText: string,
-  optionsData: MultiSelectOption[]
+  optionsData: MultiSelectOption[],
+  { noMatchHint, path = [] }: PromptContext = {}
 ): string {
   return `
-    You are an intelligent assistant helping a user complete a job application form on Workday. Your task is to select the most suitable option from the provided options based on the given label text and options data.  
+    Your task is to select the most suitable option from the provided options based on the given label text and options data.  
 
     ### Instructions:
     1. Carefully analyze the **label text** and the list of available options.
@@ -259,11 +1165,19 @@ function generatePrompt(
 
     ### Important:
     - The **"optionId"** must be the exact one-word value from the provided "optionId" in the options data.
-    - The **reason** should clearly justify why the selected option is the most appropriate.
+    - The **reason** should clearly justify why the selected option is the most appropriate.${
+      noMatchHint ? `\n    - ${noMatchHint}` : ""
+    }
 
     ### Inputs:
     - **Label Text**: ${labelText}  
-    - **Options Data**: ${JSON.stringify(optionsData)}  
+    - **Options Data**: ${JSON.stringify(optionsData)}  ${
+      path.length
+        ? `\n    - **Chosen so far**: ${path
+            .map((opt) => opt.optionText)
+            .join(" > ")}`
+        : ""
+    }
     - **${getProgressBarStep()}**
 
     Respond only with the JSON object.
@@ -271,17 +1185,37 @@ function generatePrompt(
 }
 
 /**
- * Parses the AI response into a structured object
- * @param {string} response - The raw AI response
- * @returns {AIResponse} The parsed response
- * @throws {Error} When the response is invalid JSON
+ * Generates the prompt for prompts that take several options
+ * @param {string} labelText - The label text to use in the prompt
+ * @param {MultiSelectOption[]} optionsData - Available options
+ * @param {number} maxSelections - The maximum number of options to select
+ * @returns {string} The generated prompt
  */
-function parseAIResponse(response: string): AIResponse {
-  try {
-    return JSON.parse(response);
-  } catch (error) {
-    throw new Error("Invalid JSON response from AI");
-  }
+function generateMultiplePrompt(
+  labelText: string,
+  optionsData: MultiSelectOption[],
+  maxSelections: number
+): string {
+  return `
+    Your task is to select every option that applies to the user from the provided options based on the given label text and the saved data of the user.
+
+    ### Instructions:
+    1. Carefully analyze the **label text** and the list of available options.
+    2. Select each option the saved data supports, at most ${maxSelections}, the most relevant first. Do not select options that only loosely fit.
+    3. Return a **JSON object** in this below structure:
+      { "reason": "reason for selecting the options", "optionIds": ["optionId"] }
+
+    ### Important:
+    - Every **"optionIds"** entry must be the exact one-word value from the provided "optionId" in the options data.
+    - The **reason** should clearly justify why the selected options are the most appropriate.
+
+    ### Inputs:
+    - **Label Text**: ${labelText}
+    - **Options Data**: ${JSON.stringify(optionsData)}
+    - **${getProgressBarStep()}**
+
+    Respond only with the JSON object.
+  `;
 }
 
 /**
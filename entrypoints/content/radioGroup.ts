@@ -1,4 +1,5 @@
-import { generateText } from "@/utils/aiUtil";
+import { generateStructured } from "@/utils/aiUtil";
+import { createOptionSchema, StructuredSchema } from "@/utils/schemaUtil";
 import { updateStatus } from "@/utils/commonUtils";
 import { getProgressBarStep } from "@/utils/progressUtils";
 
@@ -19,7 +20,7 @@ interface LabelInputPair {
  * Represents an option in the radio group
  * @interface RadioOption
  */
-interface RadioOption {
+export interface RadioOption {
   /** The display text of the option */
   optionText: string;
   /** The unique identifier of the option */
@@ -55,11 +56,13 @@ class RadioGroupError extends Error {
  * Handles the interaction with a radio group input
  * @param parentInputElement - The parent element containing the radio group
  * @param labelText - The label text associated with the radio group
+ * @param presetOptionId - An option id that was already chosen (e.g. by the page batch)
  * @throws {RadioGroupError} When input validation fails or interaction errors occur
  */
 export const handleRadioGroupInput = async (
   parentInputElement: HTMLElement,
-  labelText: string
+  labelText: string,
+  presetOptionId?: string
 ): Promise<void> => {
   try {
     validateInputs(parentInputElement, labelText);
@@ -69,10 +72,12 @@ export const handleRadioGroupInput = async (
       throw new RadioGroupError("No radio options found", "NO_OPTIONS_FOUND");
     }
 
-    const selectedOptionId = await selectOptionWithAI(
-      labelInputPairs,
-      labelText
-    );
+    const selectedOptionId =
+      getPresetOption(
+        mapToRadioOptions(labelInputPairs),
+        labelText,
+        presetOptionId
+      ) ?? (await selectOptionWithAI(labelInputPairs, labelText));
 
     await clickSelectedOption(labelInputPairs, selectedOptionId);
   } catch (error) {
@@ -80,6 +85,37 @@ export const handleRadioGroupInput = async (
   }
 };
 
+/**
+ * Reads the options of a radio group without interacting with it
+ * @param parentElement - The parent element containing the radio group
+ * @returns The available options
+ */
+export function getRadioOptions(parentElement: HTMLElement): RadioOption[] {
+  return mapToRadioOptions(getLabelInputPairs(parentElement));
+}
+
+/**
+ * Returns the preset option id when it matches one of the options
+ */
+function getPresetOption(
+  options: RadioOption[],
+  labelText: string,
+  presetOptionId?: string
+): string | null {
+  if (
+    !presetOptionId ||
+    !options.some((opt) => opt.optionId === presetOptionId)
+  ) {
+    return null;
+  }
+  updateStatus(
+    `Filling input ${labelText}...`,
+    "Answered together with the other fields on this step",
+    presetOptionId
+  );
+  return presetOptionId;
+}
+
 /**
  * Validates the input parameters
  * @throws {RadioGroupError} When validation fails
@@ -128,8 +164,12 @@ async function selectOptionWithAI(
 
   try {
     const prompt = generatePrompt(labelText, options);
-    const aiResponse = await generateText(prompt, true);
-    const completion = parseAIResponse(aiResponse);
+    const completion = await generateStructured<AIResponse>(
+      buildResponseSchema(options),
+      prompt,
+      true,
+      labelText
+    );
 
     updateStatus(
       `Filling input ${labelText}...`,
@@ -163,12 +203,23 @@ function mapToRadioOptions(pairs: LabelInputPair[]): RadioOption[] {
     }));
 }
 
+/**
+ * Builds the response schema with the optionId constrained to the radio options
+ */
+function buildResponseSchema(options: RadioOption[]): StructuredSchema {
+  return createOptionSchema(
+    "radio_option",
+    "optionId",
+    options.map((opt) => opt.optionId)
+  );
+}
+
 /**
  * Generates the prompt for the AI model
  */
 function generatePrompt(labelText: string, options: RadioOption[]): string {
   return `
-    You are an intelligent assistant helping a user complete a job application form on Workday. Your task is to select the most appropriate option for the given label text based on the provided saved data of the user and the available options.  
+    Your task is to select the most appropriate option for the given label text based on the provided saved data of the user and the available options.  
 
     ### Instructions:
     1. Analyze the **label text** and the list of available options carefully.
@@ -189,18 +240,6 @@ function generatePrompt(labelText: string, options: RadioOption[]): string {
   `;
 }
 
-/**
- * Parses and validates the AI response
- * @throws {Error} When response is invalid
- */
-function parseAIResponse(response: string): AIResponse {
-  try {
-    return JSON.parse(response);
-  } catch (error) {
-    throw new Error("Invalid JSON response from AI");
-  }
-}
-
 /**
  * Validates the AI response against available options
  * @throws {Error} When validation fails
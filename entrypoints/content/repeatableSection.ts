@@ -0,0 +1,718 @@
+import { generateStructured } from "@/utils/aiUtil";
+import { guardedClick } from "@/utils/buttonUtil";
+import { updateStatus } from "@/utils/commonUtils";
+import { waitFor, waitForQuiescence } from "@/utils/domWaitUtil";
+import { StructuredSchema } from "@/utils/schemaUtil";
+import { RunStoppedError } from "@/utils/runControlUtil";
+import {
+  FieldType,
+  getFieldsetFields,
+  getFieldType,
+  getLabelledFields,
+  PageField,
+} from "./fields";
+import { getDateFields, handleDateInput, isDateFilled } from "./dateInput";
+import { handleTextInput } from "./textInput";
+import { handleCheckboxInput } from "./checkbox";
+import { handleSelectInput, readSelectOptions } from "./selectInput";
+import { handleMultiSelectInput, readMultiSelectOptions } from "./multiSelect";
+import { handleRadioGroupInput } from "./radioGroup";
+
+/**
+ * The kind of value an entry holds for a field
+ * @enum {string}
+ */
+export enum EntryValueKind {
+  /** Free text, also used for the text of options */
+  Text = "text",
+  /** An ISO date, `YYYY-MM-DD` with the day or month left out when unknown */
+  Date = "date",
+  /** Whether a checkbox is checked */
+  Flag = "flag",
+}
+
+/**
+ * A value every entry of a section has, mapped to the fields it fills
+ * @interface EntryField
+ */
+export interface EntryField {
+  /** The key the value is extracted under */
+  key: string;
+  /** What the value is, shown to the model */
+  description: string;
+  /** Matches the labels of the fields the value fills */
+  label: RegExp;
+  kind: EntryValueKind;
+}
+
+/**
+ * A Workday section whose entries are added one by one with an "Add" button
+ * @interface RepeatableSection
+ */
+export interface RepeatableSection {
+  /** Name shown in the status feed */
+  title: string;
+  /** Matches the heading of the section on the page */
+  heading: RegExp;
+  /** Automation id prefix of the entry groups, e.g. `workExperience-` */
+  groupPrefix: string;
+  /** The profile section the entries are read from */
+  profileSection: string;
+  /** What a single entry is, e.g. "job" */
+  entryName: string;
+  /** The values of an entry */
+  fields: EntryField[];
+}
+
+/** The values of a single entry, keyed by `EntryField.key` */
+type SectionEntry = Record<string, string | boolean | null>;
+
+/**
+ * Response structure from the AI model
+ * @interface AIResponse
+ */
+interface AIResponse {
+  entries: SectionEntry[];
+}
+
+/**
+ * Fills a field within the current run, letting the caller pause, stop and
+ * record around it
+ */
+export type FieldFiller = (
+  field: PageField,
+  fill: () => Promise<void>
+) => Promise<void>;
+
+/**
+ * Custom error class for repeatable section related errors
+ */
+class RepeatableSectionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "RepeatableSectionError";
+  }
+}
+
+/** Longest time to wait for an added entry to render in milliseconds */
+const ADD_ENTRY_TIMEOUT = 5000;
+
+/** Upper bound on entries added per section */
+const MAX_ENTRIES = 10;
+
+/** DOM selectors used for finding sections */
+const SELECTORS = {
+  HEADING: 'h2, h3, h4, [role="heading"]',
+  ADD_BUTTON: 'button[data-automation-id="add-button"]',
+} as const;
+
+/** Matches the text of the buttons that add an entry */
+const ADD_BUTTON_TEXT = /^add( another)?$/i;
+
+/** Work Experience on the "My Experience" step */
+export const workExperienceSection: RepeatableSection = {
+  title: "Work Experience",
+  heading: /^work experience$/i,
+  groupPrefix: "workExperience-",
+  profileSection: "Experience",
+  entryName: "job",
+  fields: [
+    {
+      key: "jobTitle",
+      description: "the job title",
+      label: /job title|position|role title/i,
+      kind: EntryValueKind.Text,
+    },
+    {
+      key: "company",
+      description: "the employer",
+      label: /company|employer|organi[sz]ation/i,
+      kind: EntryValueKind.Text,
+    },
+    {
+      key: "location",
+      description: "the city and country of the job",
+      label: /location|city/i,
+      kind: EntryValueKind.Text,
+    },
+    {
+      key: "currentlyWorkHere",
+      description: "whether the user still works there",
+      label: /currently work here|current(ly)? (job|employer|position)/i,
+      kind: EntryValueKind.Flag,
+    },
+    {
+      key: "startDate",
+      description: "the start date",
+      label: /^from\b|start date/i,
+      kind: EntryValueKind.Date,
+    },
+    {
+      key: "endDate",
+      description: "the end date, null while the user still works there",
+      label: /^to\b|end date/i,
+      kind: EntryValueKind.Date,
+    },
+    {
+      key: "description",
+      description: "a summary of the responsibilities and achievements",
+      label: /description|responsibilities|summary/i,
+      kind: EntryValueKind.Text,
+    },
+  ],
+};
+
+/** Education on the "My Experience" step */
+export const educationSection: RepeatableSection = {
+  title: "Education",
+  heading: /^education$/i,
+  groupPrefix: "education-",
+  profileSection: "Education",
+  entryName: "degree",
+  fields: [
+    {
+      key: "school",
+      description: "the school or university",
+      label: /school|university|college|institution/i,
+      kind: EntryValueKind.Text,
+    },
+    {
+      key: "degree",
+      description: "the degree, e.g. Bachelor's or Master's",
+      label: /degree/i,
+      kind: EntryValueKind.Text,
+    },
+    {
+      key: "fieldOfStudy",
+      description: "the field of study or major",
+      label: /field of study|major|discipline/i,
+      kind: EntryValueKind.Text,
+    },
+    {
+      key: "gpa",
+      description: "the GPA or overall result",
+      label: /gpa|overall result|grade/i,
+      kind: EntryValueKind.Text,
+    },
+    {
+      key: "startDate",
+      description: "the start date",
+      label: /^from\b|start date/i,
+      kind: EntryValueKind.Date,
+    },
+    {
+      key: "endDate",
+      description: "the graduation date, expected or actual",
+      label: /^to\b|end date|graduation/i,
+      kind: EntryValueKind.Date,
+    },
+  ],
+};
+
+/** Certifications on the "My Experience" step */
+export const certificationSection: RepeatableSection = {
+  title: "Certifications",
+  heading: /^certifications?$/i,
+  groupPrefix: "certification-",
+  profileSection: "Certifications",
+  entryName: "certification",
+  fields: [
+    {
+      key: "certification",
+      description: "the name of the certification or license",
+      label: /^certification$|certification name|license/i,
+      kind: EntryValueKind.Text,
+    },
+    {
+      key: "certificationNumber",
+      description: "the certification or credential number",
+      label: /number|credential id/i,
+      kind: EntryValueKind.Text,
+    },
+    {
+      key: "issuedDate",
+      description: "the date it was issued",
+      label: /issued|obtained|attained/i,
+      kind: EntryValueKind.Date,
+    },
+    {
+      key: "expirationDate",
+      description: "the date it expires, null when it does not",
+      label: /expir/i,
+      kind: EntryValueKind.Date,
+    },
+  ],
+};
+
+/** Languages on the "My Experience" step */
+export const languageSection: RepeatableSection = {
+  title: "Languages",
+  heading: /^languages?$/i,
+  groupPrefix: "language-",
+  profileSection: "Skills",
+  entryName: "spoken language",
+  fields: [
+    {
+      key: "language",
+      description: "the name of the language",
+      label: /^language$/i,
+      kind: EntryValueKind.Text,
+    },
+    {
+      key: "fluent",
+      description: "whether the user is fluent or native in it",
+      label: /fluent/i,
+      kind: EntryValueKind.Flag,
+    },
+    {
+      key: "proficiency",
+      description:
+        "the proficiency level, e.g. Native, Fluent, Advanced, Intermediate or Beginner",
+      label: /proficiency|reading|speaking|writing|comprehension|overall/i,
+      kind: EntryValueKind.Text,
+    },
+  ],
+};
+
+/** The repeatable sections filled by default */
+export const repeatableSections: RepeatableSection[] = [
+  workExperienceSection,
+  educationSection,
+  certificationSection,
+  languageSection,
+];
+
+/**
+ * Fills every repeatable section on the step: reads the section's entries
+ * from the profile, clicks "Add" until there is one group per entry and fills
+ * each group with its own entry.
+ * @param fillField - Runs each field fill within the current run
+ * @param sections - The sections to look for
+ * @returns The inputs that were filled or deliberately left empty
+ * @throws {RunStoppedError} When the user stopped the run
+ */
+export async function fillRepeatableSections(
+  fillField: FieldFiller,
+  sections: RepeatableSection[] = repeatableSections
+): Promise<Set<HTMLElement>> {
+  const filledInputs = new Set<HTMLElement>();
+
+  for (const section of sections) {
+    const container = findSectionContainer(section);
+    if (!container) continue;
+
+    try {
+      const entries = await readEntries(section);
+      if (!entries.length) continue;
+
+      updateStatus(
+        `Adding ${section.title}...`,
+        `Found ${entries.length} ${section.entryName} entries in your ${section.profileSection} section`,
+        ""
+      );
+
+      const groups = await addGroups(container, section, entries.length);
+      for (const [index, group] of groups.entries()) {
+        const filled = await fillGroup(
+          group,
+          section,
+          entries[index],
+          index,
+          fillField
+        );
+        filled.forEach((input) => filledInputs.add(input));
+      }
+    } catch (error) {
+      if (error instanceof RunStoppedError) {
+        throw error;
+      }
+      handleError(error);
+    }
+  }
+
+  return filledInputs;
+}
+
+/**
+ * Finds the element containing a section's heading, groups and Add button
+ */
+function findSectionContainer(section: RepeatableSection): HTMLElement | null {
+  const heading = Array.from(
+    document.querySelectorAll<HTMLElement>(SELECTORS.HEADING)
+  ).find((element) => section.heading.test(element.textContent?.trim() || ""));
+
+  let container = heading?.parentElement || null;
+  // Walk up until the container also holds the Add button
+  while (container && !findAddButton(container)) {
+    container = container.parentElement;
+  }
+  return container;
+}
+
+/**
+ * Finds the button that adds an entry to a section
+ */
+function findAddButton(container: HTMLElement): HTMLButtonElement | null {
+  return (
+    container.querySelector<HTMLButtonElement>(SELECTORS.ADD_BUTTON) ||
+    Array.from(container.querySelectorAll<HTMLButtonElement>("button")).find(
+      (button) => ADD_BUTTON_TEXT.test(button.textContent?.trim() || "")
+    ) ||
+    null
+  );
+}
+
+/**
+ * Returns the entry groups of a section in display order
+ */
+function getGroups(
+  container: HTMLElement,
+  section: RepeatableSection
+): HTMLElement[] {
+  return Array.from(
+    container.querySelectorAll<HTMLElement>(
+      `[data-automation-id^="${section.groupPrefix}"]`
+    )
+  ).filter((group) =>
+    new RegExp(`^${section.groupPrefix}\\d+$`).test(
+      group.getAttribute("data-automation-id") || ""
+    )
+  );
+}
+
+/**
+ * Clicks Add until the section has a group per entry
+ * @returns The groups, at most one per entry
+ * @throws {RepeatableSectionError} When a group cannot be added
+ */
+async function addGroups(
+  container: HTMLElement,
+  section: RepeatableSection,
+  entryCount: number
+): Promise<HTMLElement[]> {
+  const targetCount = Math.min(entryCount, MAX_ENTRIES);
+  let groups = getGroups(container, section);
+
+  while (groups.length < targetCount) {
+    const addButton = findAddButton(container);
+    if (!addButton) {
+      throw new RepeatableSectionError(
+        `Add button of ${section.title} not found`,
+        "ADD_BUTTON_NOT_FOUND"
+      );
+    }
+    guardedClick(addButton);
+    const previousCount = groups.length;
+    await waitFor(() => getGroups(container, section).length > previousCount, {
+      root: container,
+      timeout: ADD_ENTRY_TIMEOUT,
+    });
+    // The inputs of the entry render after its group
+    await waitForQuiescence({ root: container });
+
+    const updatedGroups = getGroups(container, section);
+    if (updatedGroups.length <= groups.length) {
+      throw new RepeatableSectionError(
+        `Clicking Add did not add a ${section.entryName} to ${section.title}`,
+        "GROUP_NOT_ADDED"
+      );
+    }
+    groups = updatedGroups;
+  }
+
+  return groups.slice(0, targetCount);
+}
+
+/**
+ * Reads the section's entries from the profile using AI
+ * @throws {RunStoppedError} When the user stopped the run
+ * @throws {RepeatableSectionError} When AI extraction fails
+ */
+async function readEntries(
+  section: RepeatableSection
+): Promise<SectionEntry[]> {
+  try {
+    const { entries } = await generateStructured<AIResponse>(
+      buildResponseSchema(section),
+      generatePrompt(section),
+      true,
+      section.title,
+      section.profileSection
+    );
+    return entries;
+  } catch (error) {
+    if (error instanceof RunStoppedError) {
+      throw error;
+    }
+    throw new RepeatableSectionError(
+      `Failed to read the ${section.profileSection} entries`,
+      "AI_EXTRACTION_FAILED",
+      error
+    );
+  }
+}
+
+/**
+ * Builds the schema of the entry list with one property per entry field
+ */
+function buildResponseSchema(section: RepeatableSection): StructuredSchema {
+  const properties = Object.fromEntries(
+    section.fields.map(({ key, kind }) => [
+      key,
+      { type: kind === EntryValueKind.Flag ? "boolean" : ["string", "null"] },
+    ])
+  );
+
+  return {
+    name: `${section.groupPrefix.replace(/\W/g, "")}_entries`,
+    schema: {
+      type: "object",
+      properties: {
+        entries: {
+          type: "array",
+          maxItems: MAX_ENTRIES,
+          items: {
+            type: "object",
+            properties,
+            required: Object.keys(properties),
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ["entries"],
+      additionalProperties: false,
+    },
+  };
+}
+
+/**
+ * Generates the prompt for the AI model
+ */
+function generatePrompt(section: RepeatableSection): string {
+  const fieldList = section.fields
+    .map(
+      ({ key, description, kind }) =>
+        `- "${key}": ${description}${
+          kind === EntryValueKind.Date
+            ? ' (as "YYYY-MM-DD", "YYYY-MM" or "YYYY")'
+            : ""
+        }`
+    )
+    .join("\n    ");
+
+  return `
+    Your task is to list every ${section.entryName} in the **${section.profileSection}** section of the user's saved data, most recent first.
+
+    ### Instructions:
+    1. Create one entry per ${section.entryName}, never merge or repeat entries.
+    2. Fill in the values below from the saved data, using null for anything the saved data does not tell you:
+    ${fieldList}
+    3. Return an empty list when the saved data has no ${section.profileSection} section.
+    4. Return a **JSON object** in the below structure:
+      { "entries": [ { ${section.fields
+        .map(({ key }) => `"${key}": ...`)
+        .join(", ")} } ] }
+
+    Respond only with the JSON object.
+  `;
+}
+
+/**
+ * Checks whether a field already holds a value
+ */
+function isFilled(inputElement: HTMLElement, type: FieldType): boolean {
+  if (type === FieldType.Date) {
+    return isDateFilled(inputElement);
+  }
+  return (
+    !!inputElement.getAttribute("value") ||
+    (type === FieldType.Text && !!(inputElement as HTMLInputElement).value)
+  );
+}
+
+/**
+ * Returns the entry field a page field is filled from. The required marker is
+ * dropped first so anchored patterns match "Language*" as well.
+ */
+function matchEntryField(
+  section: RepeatableSection,
+  labelText: string
+): EntryField | undefined {
+  const label = labelText.replace(/\*/g, "").replace(/\s+/g, " ").trim();
+  return section.fields.find(({ label: pattern }) => pattern.test(label));
+}
+
+/**
+ * Fills the fields of a group with the values of its entry
+ * @returns The inputs that were filled or deliberately left empty
+ */
+async function fillGroup(
+  group: HTMLElement,
+  section: RepeatableSection,
+  entry: SectionEntry,
+  index: number,
+  fillField: FieldFiller
+): Promise<HTMLElement[]> {
+  const handledInputs: HTMLElement[] = [];
+  const seenInputs = new Set<HTMLElement>();
+  const entryContext = `${section.entryName} ${index + 1}: ${JSON.stringify(
+    entry
+  )}`;
+
+  for (const field of [
+    ...getLabelledFields(group),
+    ...getFieldsetFields(group),
+    ...getDateFields(group),
+  ]) {
+    const { inputElement, labelText } = field;
+    const type = getFieldType(inputElement);
+    if (!type || seenInputs.has(inputElement)) continue;
+    seenInputs.add(inputElement);
+    if (isFilled(inputElement, type)) continue;
+
+    const entryField = matchEntryField(section, labelText);
+    const value = entryField ? entry[entryField.key] : undefined;
+    if (value === null || value === "") {
+      // Leave what the profile does not tell empty instead of guessing
+      handledInputs.push(inputElement);
+      continue;
+    }
+
+    await fillField(field, () =>
+      fillFromEntry(inputElement, labelText, type, value, entryContext)
+    );
+    handledInputs.push(inputElement);
+  }
+
+  return handledInputs;
+}
+
+/**
+ * Fills a field with its entry value, or lets its handler choose with the
+ * entry as context when the value cannot be applied directly
+ */
+async function fillFromEntry(
+  inputElement: HTMLElement,
+  labelText: string,
+  type: FieldType,
+  value: string | boolean | undefined,
+  entryContext: string
+): Promise<void> {
+  const presetText = typeof value === "string" ? value : undefined;
+  const contextLabel = `${labelText} (for ${presetText ?? entryContext})`;
+
+  switch (type) {
+    case FieldType.Text:
+      await handleTextInput(
+        inputElement,
+        presetText ? labelText : contextLabel,
+        presetText
+      );
+      break;
+    case FieldType.Date:
+      await handleDateInput(
+        inputElement,
+        presetText ? labelText : contextLabel,
+        presetText
+      );
+      break;
+    case FieldType.Checkbox:
+      await handleCheckboxInput(
+        inputElement,
+        contextLabel,
+        typeof value === "boolean"
+          ? value
+            ? "checked"
+            : "unchecked"
+          : undefined
+      );
+      break;
+    case FieldType.Select: {
+      const options = presetText
+        ? await readSelectOptions(inputElement).catch(() => [])
+        : [];
+      const optionId = presetText && matchOptionByText(options, presetText);
+      await handleSelectInput(
+        inputElement,
+        contextLabel,
+        optionId || undefined
+      );
+      break;
+    }
+    case FieldType.MultiSelect: {
+      const options = presetText
+        ? await readMultiSelectOptions(inputElement).catch(() => null)
+        : null;
+      const optionId =
+        presetText &&
+        options &&
+        matchOptionByText(
+          options.map(({ optionText, optionId }) => ({
+            optionText,
+            id: optionId,
+          })),
+          presetText
+        );
+      await handleMultiSelectInput(
+        inputElement,
+        contextLabel,
+        optionId || undefined
+      );
+      break;
+    }
+    case FieldType.RadioGroup:
+      await handleRadioGroupInput(inputElement, contextLabel);
+      break;
+  }
+}
+
+/**
+ * Lowercases a text and drops everything but letters and digits
+ */
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+/**
+ * Finds the option whose text matches an entry value, preferring an exact
+ * match over a single option containing the value (or contained in it)
+ * @returns The option id, or null when there is no unambiguous match
+ */
+function matchOptionByText(
+  options: { optionText: string | null; id: string | null }[],
+  value: string
+): string | null {
+  const target = normalizeText(value);
+  const candidates = options.filter(
+    (option): option is { optionText: string; id: string } =>
+      !!option.optionText && !!option.id
+  );
+
+  const exact = candidates.find(
+    ({ optionText }) => normalizeText(optionText) === target
+  );
+  if (exact) {
+    return exact.id;
+  }
+
+  const partial = candidates.filter(({ optionText }) => {
+    const text = normalizeText(optionText);
+    return !!text && (text.includes(target) || target.includes(text));
+  });
+  return partial.length === 1 ? partial[0].id : null;
+}
+
+/**
+ * Handles errors in a consistent way
+ */
+function handleError(error: unknown) {
+  if (error instanceof RepeatableSectionError) {
+    console.error(`[${error.code}] ${error.message}`, error.details);
+  } else {
+    console.error("Unexpected error:", error);
+  }
+}
@@ -0,0 +1,153 @@
+import { ButtonKind, findButtons, guardedClick } from "@/utils/buttonUtil";
+import { updateStatus } from "@/utils/commonUtils";
+import { waitForQuiescence, waitForStepChange } from "@/utils/domWaitUtil";
+import { getProgressBarStep, getStepName } from "@/utils/progressUtils";
+import { compareReview, Discrepancy, ReviewEntry } from "@/utils/reviewUtil";
+import { RecordedAnswer } from "@/utils/runRecordUtil";
+import { getData } from "@/utils/storageUtil";
+
+/**
+ * Custom error class for review related errors
+ */
+class ReviewError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "ReviewError";
+  }
+}
+
+/** DOM selectors used for reading the summary */
+const SELECTORS = {
+  HEADING: "h2, h3",
+  FORM_FIELD: '[data-automation-id^="formField"]',
+  LABEL: 'label, legend, [data-automation-id="formLabel"]',
+} as const;
+
+/** Longest time for Workday to show the previous step after clicking Back */
+const BACK_TIMEOUT = 10000;
+
+/**
+ * Reads the Review step's summary and compares it with the answers the run
+ * entered and with the saved profile. The outcome is shown in the status feed.
+ * @param answers - The answers recorded during the run
+ * @returns The answers that need the user's attention
+ */
+export async function verifyReviewStep(
+  answers: RecordedAnswer[]
+): Promise<Discrepancy[]> {
+  const discrepancies = compareReview(
+    parseReviewPage(),
+    answers,
+    (await getData("userData")) || "",
+    getProgressBarStep()
+  );
+
+  updateStatus(
+    "Reviewing the application...",
+    discrepancies.length
+      ? `${discrepancies.length} answers need your attention: ${discrepancies
+          .map(({ label }) => label)
+          .join(", ")}`
+      : "Every answer matches what was entered and your profile",
+    ""
+  );
+  return discrepancies;
+}
+
+/**
+ * Reads the question and answer pairs of the Review step, each with the
+ * heading of the summary section it is listed under.
+ * @returns The pairs in document order
+ */
+export function parseReviewPage(): ReviewEntry[] {
+  const headings = Array.from(document.querySelectorAll(SELECTORS.HEADING));
+
+  return Array.from(document.querySelectorAll(SELECTORS.FORM_FIELD))
+    .filter((field) => !field.parentElement?.closest(SELECTORS.FORM_FIELD))
+    .map((field) => {
+      const labelElement = field.querySelector(SELECTORS.LABEL);
+      const label = labelElement?.textContent?.trim() || "";
+      const fieldText = field.textContent?.trim() || "";
+      return {
+        section: findSectionHeading(field, headings),
+        label,
+        value: fieldText.startsWith(label)
+          ? fieldText.slice(label.length).trim()
+          : fieldText,
+      };
+    })
+    .filter((entry) => !!entry.label);
+}
+
+/**
+ * Goes back through the application until the given step is shown, so the
+ * user can fix an answer flagged on the Review step.
+ * @param step - The progress bar text of the step to go back to
+ * @returns Whether the step was reached
+ */
+export async function jumpToStep(step: string): Promise<boolean> {
+  try {
+    // Never more clicks than there are steps before the current one
+    const [current = 0] = (getProgressBarStep().match(/\d+/g) || []).map(
+      Number
+    );
+
+    for (let clicks = 0; getProgressBarStep() !== step; clicks++) {
+      const [backButton] = findButtons(ButtonKind.Back);
+      if (!backButton || clicks >= current) {
+        throw new ReviewError(
+          `Could not go back to ${getStepName(step)}`,
+          "STEP_NOT_REACHED",
+          { step, reachedStep: getProgressBarStep() }
+        );
+      }
+
+      const previousStep = getProgressBarStep();
+      guardedClick(backButton);
+      if (!(await waitForStepChange(previousStep, { timeout: BACK_TIMEOUT }))) {
+        throw new ReviewError(
+          "The previous step did not show up",
+          "BACK_TIMED_OUT",
+          { step, previousStep }
+        );
+      }
+      await waitForQuiescence();
+    }
+
+    updateStatus(`Back on ${getStepName(step)}`, "", "");
+    return true;
+  } catch (error) {
+    handleError(error);
+    return false;
+  }
+}
+
+/**
+ * Returns the text of the last heading before a field, which names the step
+ * the field belongs to
+ */
+function findSectionHeading(field: Element, headings: Element[]): string {
+  const heading = headings
+    .filter(
+      (heading) =>
+        heading.compareDocumentPosition(field) &
+        Node.DOCUMENT_POSITION_FOLLOWING
+    )
+    .pop();
+  return heading?.textContent?.trim() || "";
+}
+
+/**
+ * Handles errors in a consistent way
+ */
+function handleError(error: unknown) {
+  if (error instanceof ReviewError) {
+    console.error(`[${error.code}] ${error.message}`, error.details);
+  } else {
+    console.error("Unexpected error:", error);
+  }
+}
@@ -1,11 +1,13 @@
-import { generateText } from "@/utils/aiUtil";
-import { delay, updateStatus } from "@/utils/commonUtils";
+import { generateStructured } from "@/utils/aiUtil";
+import { createOptionSchema, StructuredSchema } from "@/utils/schemaUtil";
+import { dismissPopup, updateStatus } from "@/utils/commonUtils";
+import { waitForListbox } from "@/utils/domWaitUtil";
 
 /**
  * Represents an option in a select dropdown
  * @interface SelectOption
  */
-interface SelectOption {
+export interface SelectOption {
   /** The display text of the option */
   optionText: string | null;
   /** The unique identifier of the option */
@@ -37,31 +39,71 @@ class SelectInputError extends Error {
   }
 }
 
-/** Time to wait for UI updates in milliseconds */
-const UI_UPDATE_DELAY = 1000;
+/** Longest time for the dropdown to list its options in milliseconds */
+const DROPDOWN_TIMEOUT = 5000;
 
 /**
  * Handles the interaction with a select input element
  * @param inputElement - The select input element to interact with
  * @param labelText - The label text associated with the select
+ * @param presetOptionId - An option id that was already chosen (e.g. by the page batch)
  * @throws {SelectInputError} When input validation fails or interaction errors occur
  */
 export async function handleSelectInput(
   inputElement: HTMLElement,
-  labelText?: string
+  labelText?: string,
+  presetOptionId?: string
 ): Promise<void> {
   try {
     validateInputs(inputElement, labelText);
 
     await openSelectDropdown(inputElement);
     const options = await getSelectOptions(inputElement);
-    const selectedId = await selectOptionWithAI(options, labelText!);
+    const selectedId =
+      getPresetOption(parseOptions(options), labelText!, presetOptionId) ??
+      (await selectOptionWithAI(options, labelText!));
     await clickOption(selectedId);
   } catch (error) {
     handleError(error);
   }
 }
 
+/**
+ * Opens the dropdown, reads its options and closes it again
+ * @param inputElement - The select input element
+ * @returns The available options
+ * @throws {SelectInputError} When the options cannot be read
+ */
+export async function readSelectOptions(
+  inputElement: HTMLElement
+): Promise<SelectOption[]> {
+  await openSelectDropdown(inputElement);
+  try {
+    return parseOptions(await getSelectOptions(inputElement));
+  } finally {
+    dismissPopup(inputElement);
+  }
+}
+
+/**
+ * Returns the preset option id when it matches one of the options
+ */
+function getPresetOption(
+  options: SelectOption[],
+  labelText: string,
+  presetOptionId?: string
+): string | null {
+  if (!presetOptionId || !options.some((opt) => opt.id === presetOptionId)) {
+    return null;
+  }
+  updateStatus(
+    `Filling input ${labelText}...`,
+    "Answered together with the other fields on this step",
+    presetOptionId
+  );
+  return presetOptionId;
+}
+
 /**
  * Validates the input parameters
  * @throws {SelectInputError} When validation fails
@@ -76,13 +118,13 @@ function validateInputs(inputElement: HTMLElement, labelText?: string): void {
 }
 
 /**
- * Opens the select dropdown and waits for UI update
+ * Opens the select dropdown and waits for its options to render
  * @throws {SelectInputError} When interaction fails
  */
 async function openSelectDropdown(inputElement: HTMLElement): Promise<void> {
   try {
     inputElement.click();
-    await delay(UI_UPDATE_DELAY);
+    await waitForListbox(inputElement, "li", { timeout: DROPDOWN_TIMEOUT });
   } catch (error) {
     throw new SelectInputError(
       "Failed to open select dropdown",
@@ -132,8 +174,12 @@ async function selectOptionWithAI(
 
   try {
     const prompt = generatePrompt(labelText, optionsData);
-    const aiResponse = await generateText(prompt, true);
-    const completion = parseAIResponse(aiResponse);
+    const completion = await generateStructured<AIResponse>(
+      buildResponseSchema(optionsData),
+      prompt,
+      true,
+      labelText
+    );
 
     updateStatus(
       `Filling input ${labelText}...`,
@@ -163,12 +209,23 @@ function parseOptions(options: NodeListOf<Element>): SelectOption[] {
   }));
 }
 
+/**
+ * Builds the response schema with the id constrained to the scraped options
+ */
+function buildResponseSchema(options: SelectOption[]): StructuredSchema {
+  return createOptionSchema(
+    "select_option",
+    "id",
+    options.map((opt) => opt.id).filter((id): id is string => !!id)
+  );
+}
+
 /**
  * Generates the prompt for the AI model
  */
 function generatePrompt(labelText: string, options: SelectOption[]): string {
   return `
-    You are an intelligent assistant helping a user complete a job application form on Workday. Your task is to select the most appropriate option from the provided options (not based on chat history) for the given form label, using the provided saved data of the user.  
+    Your task is to select the most appropriate option from the provided options (not based on chat history) for the given form label, using the provided saved data of the user.  
 
     ### Instructions:
     1. Carefully analyze the **label text** and the list of **options data** provided.
@@ -189,18 +246,6 @@ function generatePrompt(labelText: string, options: SelectOption[]): string {
   `;
 }
 
-/**
- * Parses and validates the AI response
- * @throws {Error} When response is invalid
- */
-function parseAIResponse(response: string): AIResponse {
-  try {
-    return JSON.parse(response);
-  } catch (error) {
-    throw new Error("Invalid JSON response from AI");
-  }
-}
-
 /**
  * Validates the AI response against available options
  * @throws {Error} When validation fails
@@ -0,0 +1,149 @@
+import { getProgressBarStep, getStepName } from "@/utils/progressUtils";
+
+/**
+ * The kinds of steps of a Workday application
+ * @enum {string}
+ */
+export enum WorkdayStep {
+  MyInformation = "myInformation",
+  MyExperience = "myExperience",
+  ApplicationQuestions = "applicationQuestions",
+  VoluntaryDisclosures = "voluntaryDisclosures",
+  SelfIdentify = "selfIdentify",
+  Review = "review",
+  Unknown = "unknown",
+}
+
+/**
+ * How the fields of a step are answered
+ * @interface StepStrategy
+ */
+export interface StepStrategy {
+  /** Profile sections the answers come from, empty for the whole profile */
+  profileSections: string[];
+  /** Whether the resume and cover letter are uploaded on the step */
+  attachesFiles: boolean;
+  /** Whether entries of repeatable sections (work experience...) are added */
+  addsEntries: boolean;
+  /** Whether the step is checked against the recorded answers, not filled */
+  verifiesOnly: boolean;
+}
+
+/** DOM selectors used for recognizing the step */
+const SELECTORS = {
+  STEP_PAGE: '[data-automation-id^="applyFlow"][data-automation-id$="Page"]',
+  HEADING: 'h2, [data-automation-id="pageHeader"]',
+} as const;
+
+/**
+ * Patterns recognizing each step, matched against automation ids (e.g.
+ * `applyFlowMyInfoPage`) and visible text. The first match wins.
+ */
+const STEP_PATTERNS: { step: WorkdayStep; id: RegExp; text: RegExp }[] = [
+  {
+    step: WorkdayStep.Review,
+    id: /review/i,
+    text: /^review\b|review (and|&) submit/i,
+  },
+  {
+    step: WorkdayStep.SelfIdentify,
+    id: /selfid/i,
+    text: /self[- ]?identif/i,
+  },
+  {
+    step: WorkdayStep.VoluntaryDisclosures,
+    id: /voluntarydisclosure/i,
+    text: /voluntary disclosure/i,
+  },
+  {
+    step: WorkdayStep.ApplicationQuestions,
+    id: /questions/i,
+    text: /application questions|questionnaire/i,
+  },
+  {
+    step: WorkdayStep.MyExperience,
+    id: /myexp/i,
+    text: /my experience/i,
+  },
+  {
+    step: WorkdayStep.MyInformation,
+    id: /myinfo/i,
+    text: /my information|personal information/i,
+  },
+];
+
+/** Filling every part of the step, used when the step is not recognized */
+const GENERIC_STRATEGY: StepStrategy = {
+  profileSections: [],
+  attachesFiles: true,
+  addsEntries: true,
+  verifiesOnly: false,
+};
+
+/** The strategy of each step */
+const STEP_STRATEGIES: Record<WorkdayStep, StepStrategy> = {
+  [WorkdayStep.MyInformation]: {
+    profileSections: ["Personal_Information", "Self_Identify"],
+    attachesFiles: false,
+    addsEntries: false,
+    verifiesOnly: false,
+  },
+  [WorkdayStep.MyExperience]: GENERIC_STRATEGY,
+  [WorkdayStep.ApplicationQuestions]: {
+    profileSections: [],
+    attachesFiles: false,
+    addsEntries: false,
+    verifiesOnly: false,
+  },
+  [WorkdayStep.VoluntaryDisclosures]: {
+    profileSections: ["Voluntary_Disclosures", "Self_Identify"],
+    attachesFiles: false,
+    addsEntries: false,
+    verifiesOnly: false,
+  },
+  [WorkdayStep.SelfIdentify]: {
+    profileSections: ["Self_Identify", "Personal_Information"],
+    attachesFiles: false,
+    addsEntries: false,
+    verifiesOnly: false,
+  },
+  [WorkdayStep.Review]: {
+    profileSections: [],
+    attachesFiles: false,
+    addsEntries: false,
+    verifiesOnly: true,
+  },
+  [WorkdayStep.Unknown]: GENERIC_STRATEGY,
+};
+
+/**
+ * Recognizes the current step from the automation id of the step page, the
+ * progress bar text and the page headings, in that order.
+ * @returns The step, `Unknown` when none of them tells it
+ */
+export function classifyStep(): WorkdayStep {
+  const pageIds = Array.from(document.querySelectorAll(SELECTORS.STEP_PAGE))
+    .map((page) => page.getAttribute("data-automation-id") || "")
+    .join(" ");
+  const headings = Array.from(document.querySelectorAll(SELECTORS.HEADING))
+    .map((heading) => heading.textContent?.trim() || "")
+    .filter(Boolean);
+
+  const match =
+    STEP_PATTERNS.find(({ id }) => pageIds && id.test(pageIds)) ||
+    STEP_PATTERNS.find(({ text }) =>
+      text.test(getStepName(getProgressBarStep()))
+    ) ||
+    STEP_PATTERNS.find(({ text }) =>
+      headings.some((heading) => text.test(heading))
+    );
+  return match?.step ?? WorkdayStep.Unknown;
+}
+
+/**
+ * Returns how the fields of a step are answered
+ * @param step - The step, see `classifyStep`
+ */
+export function getStepStrategy(step: WorkdayStep): StepStrategy {
+  return STEP_STRATEGIES[step];
+}
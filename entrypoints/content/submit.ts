@@ -0,0 +1,61 @@
+import { ButtonKind, findButtons } from "@/utils/buttonUtil";
+import { updateStatus } from "@/utils/commonUtils";
+import { waitForQuiescence } from "@/utils/domWaitUtil";
+
+/**
+ * Custom error class for submission related errors
+ */
+class SubmitError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "SubmitError";
+  }
+}
+
+/**
+ * Checks whether the application can be submitted from the current step
+ */
+export function isReadyToSubmit(): boolean {
+  return findButtons(ButtonKind.Submit).length === 1;
+}
+
+/**
+ * Submits the application. Only called when the user confirmed the
+ * submission in the side panel, the autofill itself never submits.
+ * @returns Whether the submit button was clicked
+ */
+export async function submitApplication(): Promise<boolean> {
+  try {
+    const submitButtons = findButtons(ButtonKind.Submit);
+    if (submitButtons.length !== 1) {
+      throw new SubmitError(
+        "Expected a single submit button on the page",
+        "SUBMIT_BUTTON_AMBIGUOUS",
+        { count: submitButtons.length }
+      );
+    }
+
+    submitButtons[0].click();
+    await waitForQuiescence();
+    updateStatus("Application submitted", "Confirmed in the side panel", "");
+    return true;
+  } catch (error) {
+    handleError(error);
+    return false;
+  }
+}
+
+/**
+ * Handles errors in a consistent way
+ */
+function handleError(error: unknown) {
+  if (error instanceof SubmitError) {
+    console.error(`[${error.code}] ${error.message}`, error.details);
+  } else {
+    console.error("Unexpected error:", error);
+  }
+}
@@ -1,78 +1,240 @@
-import { generateText } from "@/utils/aiUtil";
-import { updateStatus, simulateTyping } from "@/utils/commonUtils";
+import { generateStructured } from "@/utils/aiUtil";
+import { updateStatus, simulateTyping, insertText } from "@/utils/commonUtils";
+import { textValueSchema } from "@/utils/schemaUtil";
 
 type AIResponse = {
   reason: string;
   value: string;
 };
 
+/**
+ * Limits a long-form answer has to respect
+ * @interface AnswerLimits
+ */
+interface AnswerLimits {
+  /** Maximum number of characters, from `maxlength` or the question */
+  maxLength: number | null;
+  /** Maximum number of words stated in the question */
+  maxWords: number | null;
+}
+
+/** Lead-ins of a stated limit, e.g. "no more than 200 words" */
+const LIMIT_PREFIX =
+  "(?:max(?:imum)?|up to|no more than|not exceed(?:ing)?|limit(?:ed)?(?: of| to)?|under|within|at most|less than)";
+
 /**
  * Handles input for a text field by generating and applying AI-suggested values.
- * @param inputElement - The HTML input element to update.
+ * Textareas get a long-form answer that respects the stated limits and is
+ * inserted at once instead of typed.
+ * @param inputElement - The HTML input or textarea element to update.
  * @param labelText - The label text associated with the input field.
+ * @param presetValue - A value that was already chosen (e.g. by the page batch).
  * @returns {Promise<void>}
  */
 export const handleTextInput = async (
   inputElement: HTMLElement,
-  labelText: string
+  labelText: string,
+  presetValue?: string
 ): Promise<void> => {
-  // Ensure the input element is a valid HTMLInputElement
-  if (!(inputElement instanceof HTMLInputElement)) {
+  // Ensure the input element is a valid HTMLInputElement or textarea
+  if (
+    !(inputElement instanceof HTMLInputElement) &&
+    !(inputElement instanceof HTMLTextAreaElement)
+  ) {
     console.error("Invalid input element type");
     return;
   }
 
+  const isLongForm = inputElement instanceof HTMLTextAreaElement;
+  const limits = getAnswerLimits(inputElement, labelText);
+
+  if (presetValue) {
+    updateStatus(
+      `Filling input ${labelText}...`,
+      "Answered together with the other fields on this step",
+      presetValue
+    );
+    await fillValue(inputElement, applyLimits(presetValue, limits));
+    return;
+  }
+
   // Generate AI response
-  let aiResponse: string;
+  let parsedAIResponse: AIResponse;
   try {
-    aiResponse = await generateText(
-      `
-      You are an intelligent assistant helping a user complete a job application form on Workday. Your task is to provide the most appropriate value for a text input field based on the given label and the user's saved data.  
+    parsedAIResponse = await generateStructured<AIResponse>(
+      textValueSchema,
+      isLongForm
+        ? generateLongFormPrompt(labelText, limits)
+        : generateShortPrompt(labelText, inputElement),
+      true,
+      labelText
+    );
+  } catch (error) {
+    console.error("Error generating AI response:", error);
+    return;
+  }
+
+  updateStatus(
+    `Filling input ${labelText}...`,
+    parsedAIResponse.reason || "",
+    parsedAIResponse.value || ""
+  );
+
+  if (typeof parsedAIResponse.value !== "string") {
+    console.error("Invalid or incomplete AI response:", parsedAIResponse);
+    return;
+  }
+
+  await fillValue(inputElement, applyLimits(parsedAIResponse.value, limits));
+};
+
+/**
+ * Types short values like a user would and inserts long-form answers at once.
+ */
+async function fillValue(
+  inputElement: HTMLInputElement | HTMLTextAreaElement,
+  value: string
+): Promise<void> {
+  if (inputElement instanceof HTMLTextAreaElement) {
+    insertText(inputElement, value);
+  } else {
+    await simulateTyping(inputElement, value);
+  }
+}
+
+/**
+ * Generates the prompt for single line text inputs
+ */
+function generateShortPrompt(
+  labelText: string,
+  inputElement: HTMLInputElement
+): string {
+  return `
+      Your task is to provide the most appropriate value for a text input field based on the given label and the user's saved data.
 
       ### Instructions:
       1. Analyze the **label text**.
       2. Use the context provided by the label and the saved user data to determine the best possible value for the input field.
-      3. Return a **JSON object** in the below structure:  
-        { "reason": "reason for selecting the value", "value": "a string which is to be inputted by the user" }  
+      3. Return a **JSON object** in the below structure:
+        { "reason": "reason for selecting the value", "value": "a string which is to be inputted by the user" }
       4. If you find the same label again that is already in the , provide the secondary value.
 
       ### Inputs:
-      - **Label Text**: ${labelText}  
+      - **Label Text**: ${labelText}
       - **${getProgressBarStep()} **
       - **Form filled so far**: ${JSON.stringify(
         getTextContentAbove(inputElement)
       )}
     )}
-    `,
-      true
-    );
-  } catch (error) {
-    console.error("Error generating AI response:", error);
-    return;
-  }
+    `;
+}
+
+/**
+ * Generates the prompt for essay style questions answered in a textarea
+ */
+function generateLongFormPrompt(
+  labelText: string,
+  limits: AnswerLimits
+): string {
+  const limitText =
+    [
+      limits.maxWords && `at most ${limits.maxWords} words`,
+      limits.maxLength && `at most ${limits.maxLength} characters`,
+    ]
+      .filter(Boolean)
+      .join(" and ") || "about 150 to 250 words";
 
-  // Parse the AI response
-  const parseAIResponse = (response: string): AIResponse | null => {
-    try {
-      return JSON.parse(response);
-    } catch (error) {
-      console.error("Failed to parse AI response:", error);
-      return null;
+  return `
+    Your task is to write the answer to an open question of the job application in the user's own voice, using the provided saved data of the user.
+
+    ### Instructions:
+    1. Read the **question** carefully and answer exactly what it asks.
+    2. Write in the first person, in a professional and specific tone, drawing on concrete experience, skills and projects from the saved data. Never invent facts that are not in the saved data.
+    3. Split longer answers into short paragraphs separated by a blank line.
+    4. Keep the answer to ${limitText}.
+    5. Return a **JSON object** in the below structure:
+      { "reason": "how the answer was derived from the saved data", "value": "the full answer" }
+
+    ### Inputs:
+    - **Question**: ${labelText}
+    - **${getProgressBarStep()}**
+
+    Respond only with the JSON object.
+  `;
+}
+
+/**
+ * Reads a limit stated in the question, e.g. "(max. 500 characters)" or
+ * "150-200 words", returning the upper bound.
+ */
+function parseStatedLimit(text: string, unit: string): number | null {
+  const patterns = [
+    new RegExp(`(\\d[\\d,]*)\\s*(?:-|–|to)\\s*(\\d[\\d,]*)\\s*${unit}`, "i"),
+    new RegExp(`${LIMIT_PREFIX}\\W{0,3}(\\d[\\d,]*)\\s*${unit}`, "i"),
+    new RegExp(
+      `(\\d[\\d,]*)\\s*${unit}\\s*(?:max(?:imum)?|or less|or fewer)`,
+      "i"
+    ),
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) {
+      return parseInt(match[match.length - 1].replace(/,/g, ""), 10);
     }
+  }
+  return null;
+}
+
+/**
+ * Collects the limits of an answer from the element and the question text,
+ * including any description the field points to with `aria-describedby`.
+ */
+function getAnswerLimits(
+  inputElement: HTMLInputElement | HTMLTextAreaElement,
+  labelText: string
+): AnswerLimits {
+  const description = (inputElement.getAttribute("aria-describedby") || "")
+    .split(/\s+/)
+    .map((id) => id && document.getElementById(id)?.textContent)
+    .filter(Boolean)
+    .join(" ");
+  const questionText = `${labelText} ${description}`;
+
+  const statedLength = parseStatedLimit(questionText, "char(?:acter)?s");
+  const maxLengths = [
+    inputElement.maxLength > 0 ? inputElement.maxLength : null,
+    statedLength,
+  ].filter((limit): limit is number => limit !== null);
+
+  return {
+    maxLength: maxLengths.length ? Math.min(...maxLengths) : null,
+    maxWords: parseStatedLimit(questionText, "words?"),
   };
+}
 
-  const parsedAIResponse = parseAIResponse(aiResponse);
+/**
+ * Cuts an answer down to its limits, ending on a full sentence when possible.
+ */
+function applyLimits(value: string, { maxLength, maxWords }: AnswerLimits) {
+  let answer = value.trim();
 
-  updateStatus(
-    `Filling input ${labelText}...`,
-    parsedAIResponse?.reason || "",
-    parsedAIResponse?.value || ""
-  );
+  if (maxWords) {
+    const words = answer.split(/(\s+)/);
+    // Words alternate with the whitespace separating them
+    if (words.length > maxWords * 2 - 1) {
+      answer = words.slice(0, maxWords * 2 - 1).join("");
+    }
+  }
 
-  if (!parsedAIResponse || typeof parsedAIResponse.value !== "string") {
-    console.error("Invalid or incomplete AI response:", aiResponse);
-    return;
+  if (maxLength && answer.length > maxLength) {
+    const truncated = answer.slice(0, maxLength);
+    const sentenceEnd = truncated.search(/[.!?][^.!?]*$/);
+    answer =
+      sentenceEnd > maxLength / 2
+        ? truncated.slice(0, sentenceEnd + 1)
+        : truncated.replace(/\s+\S*$/, "");
   }
 
-  await simulateTyping(inputElement, parsedAIResponse.value);
-};
+  return answer;
+}
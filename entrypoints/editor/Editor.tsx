@@ -35,6 +35,7 @@ import {
 } from "@ant-design/icons";
 import { saveData, getData, clearData } from "@/utils/storageUtil";
 import { downloadTextFile } from "@/utils/fileUtil";
+import { parseSections } from "@/utils/commonUtils";
 import logo from "../../assets/ai-technology.png";
 
 const { Sider, Content } = Layout;
@@ -109,7 +110,10 @@ const WorkdayCopilot = () => {
       try {
         const savedData = await getData("userData");
         if (savedData) {
-          const parsedSections = parseSections(savedData);
+          const parsedSections = parseSections(
+            savedData,
+            Object.keys(sections)
+          );
           // Check if Voluntary Disclosures and Self Identify sections are empty
           if (!parsedSections["Voluntary_Disclosures"]) {
             parsedSections["Voluntary_Disclosures"] =
@@ -149,38 +153,6 @@ const WorkdayCopilot = () => {
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [sections]);
 
-  const parseSections = (formattedText: string): SectionState => {
-    const lines = formattedText.split("\n");
-    const parsedSections: SectionState = {};
-    let currentSection: string | null = null;
-    let sectionsFound: string[] = [];
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      if (!trimmedLine) continue;
-
-      if (Object.keys(sections).includes(trimmedLine)) {
-        currentSection = trimmedLine;
-        sectionsFound.push(trimmedLine);
-        parsedSections[currentSection] = "";
-        continue;
-      }
-
-      if (currentSection) {
-        parsedSections[currentSection] += `${line}\n`;
-      }
-    }
-
-    // Initialize empty sections for any missing ones
-    Object.keys(sections).forEach((section) => {
-      if (!sectionsFound.includes(section)) {
-        parsedSections[section] = "";
-      }
-    });
-
-    return parsedSections;
-  };
-
   const calculateProgress = () => {
     const filledSections = Object.values(sections).filter(
       (content) => content.trim().length > 0
@@ -11,14 +11,19 @@ import {
   Upload,
   message,
   Input,
+  Popconfirm,
 } from "antd";
 import { AnimatePresence, motion } from "framer-motion";
 import {
   CheckCircleTwoTone,
   CloseCircleTwoTone,
   PlayCircleOutlined,
+  PauseCircleOutlined,
+  StopOutlined,
   FileTextOutlined,
   ExpandAltOutlined,
+  RedoOutlined,
+  SendOutlined,
 } from "@ant-design/icons";
 import Lottie from "lottie-react";
 import scanningAnimation from "../../animations/scanning.json";
@@ -30,9 +35,29 @@ import { formatResume } from "@/utils/commonUtils";
 import Typewriter from "typewriter-effect";
 import CustomMenu from "../../components/Menu";
 import { BottomNav } from "../../components/BottomNav";
+import { FilePicker } from "../../components/FilePicker";
+import { ReviewReport } from "../../components/ReviewReport";
+import { StoredFileKind, storeFile } from "@/utils/fileUtil";
 import logo from "../../assets/ai-technology.png";
+import type { GenerationTimings } from "@/utils/providerUtil";
+import {
+  getApplicationUrl,
+  isResumable,
+  loadRunRecord,
+  RunRecord,
+  RunResponse,
+} from "@/utils/runRecordUtil";
+import type { Discrepancy } from "@/utils/reviewUtil";
+
+const { Title, Text } = Typography;
+
+/** Number of recent LLM calls whose timings are shown */
+const MAX_TIMING_ENTRIES = 5;
 
-const { Title } = Typography;
+type TimingEntry = GenerationTimings & { label: string };
+
+// Formats an optional duration for the timings list
+const formatMs = (ms: number | null) => (ms === null ? "n/a" : `${ms} ms`);
 
 function App() {
   const [userData, setUserData] = useState<string>("");
@@ -47,6 +72,16 @@ function App() {
   );
   const [action, setAction] = useState<string>("");
   const [reason, setReason] = useState<string>("");
+  const [timings, setTimings] = useState<TimingEntry[]>([]);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  const [haltedAt, setHaltedAt] = useState<string | null>(null);
+  const [resumableRun, setResumableRun] = useState<RunRecord | null>(null);
+  const [applicationUrl, setApplicationUrl] = useState<string>("");
+  const [storedFilesVersion, setStoredFilesVersion] = useState<number>(0);
+  const [discrepancies, setDiscrepancies] = useState<Discrepancy[] | null>(
+    null
+  );
+  const [readyToSubmit, setReadyToSubmit] = useState<boolean>(false);
 
   // Load user data and additional context from storage on component mount
   useEffect(() => {
@@ -60,40 +95,119 @@ function App() {
   }, []);
 
   useEffect(() => {
-    chrome.runtime.onMessage.addListener(
-      (message: { action: string; overallProgress: number | null }) => {
-        if (
-          message.action === "updateOverallProgress" &&
-          message.overallProgress !== null
-        ) {
-          setAutofillProgress(message.overallProgress);
-        }
+    const handleProgress = (message: {
+      action: string;
+      overallProgress: number | null;
+    }) => {
+      if (
+        message.action === "updateOverallProgress" &&
+        message.overallProgress !== null
+      ) {
+        setAutofillProgress(message.overallProgress);
+      }
+    };
+
+    chrome.runtime.onMessage.addListener(handleProgress);
+    return () => chrome.runtime.onMessage.removeListener(handleProgress);
+  }, []);
+
+  useEffect(() => {
+    const handleStatus = (message: {
+      action: string;
+      payload: { action: string; reason: string; value: string };
+    }) => {
+      if (message.action === "updateStatus") {
+        setReason(message.payload.reason);
+        setAction(message.payload.action);
       }
-    );
+    };
+
+    chrome.runtime.onMessage.addListener(handleStatus);
+    return () => chrome.runtime.onMessage.removeListener(handleStatus);
   }, []);
 
   useEffect(() => {
-    chrome.runtime.onMessage.addListener(
-      (message: {
-        action: string;
-        payload: { action: string; reason: string; value: string };
-      }) => {
-        if (message.action === "updateStatus") {
-          setReason(message.payload.reason);
-          setAction(message.payload.action);
-        }
+    const handleTimings = (message: {
+      action: string;
+      payload: TimingEntry;
+    }) => {
+      if (message.action === "updateTimings") {
+        setTimings((previous) =>
+          [message.payload, ...previous].slice(0, MAX_TIMING_ENTRIES)
+        );
       }
-    );
+    };
+
+    chrome.runtime.onMessage.addListener(handleTimings);
+    return () => chrome.runtime.onMessage.removeListener(handleTimings);
   }, []);
 
+  // Offers to continue the saved run of the application in the tab
+  const loadResumableRun = async (url: string) => {
+    const record = url ? await loadRunRecord(getApplicationUrl(url)) : null;
+    setResumableRun(record && isResumable(record) ? record : null);
+  };
+
   // Function to check if the current site is compatible
   const checkSiteCompatibility = () => {
     chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
       const url = tabs[0]?.url || "";
       setIsCompatibleSite(url.includes("workday"));
+      setApplicationUrl(url ? getApplicationUrl(url) : "");
+      loadResumableRun(url);
     });
   };
 
+  // Shows the outcome of a run
+  const handleRunResult = (response?: RunResponse) => {
+    checkSiteCompatibility();
+    if (response?.status === "stopped") {
+      setHaltedAt(response.location || "the start of the run");
+      setIsFilling(false);
+    } else if (response?.status === "done") {
+      setDiscrepancies(response.discrepancies || null);
+      setReadyToSubmit(!!response.readyToSubmit);
+      setIsSuccess(true);
+      setTimeout(() => {
+        setIsFilling(false);
+        setIsSuccess(false);
+      }, 3000);
+    } else {
+      if (response?.error) {
+        setErrorMessage(
+          "There was an unexpected error, Please try again" +
+            "\n" +
+            response?.error
+        );
+      }
+      setIsError(true);
+      setTimeout(() => {
+        setIsFilling(false);
+        setIsError(false);
+      }, 5000);
+      message.error("Failed to autofill fields.");
+    }
+  };
+
+  // Follow runs the content script resumed by itself after a reload
+  useEffect(() => {
+    const handleResumedRun = (message: {
+      action: string;
+      response?: RunResponse;
+    }) => {
+      if (message.action === "runResumed") {
+        setIsFilling(true);
+        setIsPaused(false);
+        setHaltedAt(null);
+      } else if (message.action === "runFinished") {
+        handleRunResult(message.response);
+      }
+    };
+
+    chrome.runtime.onMessage.addListener(handleResumedRun);
+    return () => chrome.runtime.onMessage.removeListener(handleResumedRun);
+  }, []);
+
   // Initial compatibility check on mount
   useEffect(() => {
     checkSiteCompatibility();
@@ -136,9 +250,12 @@ function App() {
     };
   }, [darkMode]);
 
-  // Handle file upload and extract text
+  // Handle file upload, keep the file for attaching and extract its text
   const handleFileUpload = async (file: File) => {
     try {
+      await storeFile(file, StoredFileKind.Resume);
+      setStoredFilesVersion((version) => version + 1);
+
       let extractedText = "";
       if (
         file.type ===
@@ -150,6 +267,9 @@ function App() {
         extractedText = result.value;
       } else if (file.type === "text/plain") {
         extractedText = await file.text();
+      } else {
+        message.success("Resume stored for upload, add your details below.");
+        return;
       }
       const updatedUserData = formatResume(extractedText);
       setUserData(updatedUserData);
@@ -160,8 +280,65 @@ function App() {
     }
   };
 
-  // Start autofill process
-  const handleStartAutofill = async () => {
+  // Sends a run control message to the content script of the active tab
+  const sendRunControl = (
+    action: "stopAutofill" | "pauseAutofill" | "resumeAutofill"
+  ) => {
+    chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
+      const tabId = tabs[0]?.id;
+      if (tabId) {
+        chrome.tabs.sendMessage(tabId, { action });
+      }
+    });
+  };
+
+  // Goes back to the step of an answer flagged on the Review step
+  const handleJumpToStep = (step: string) => {
+    chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
+      const tabId = tabs[0]?.id;
+      if (tabId) {
+        chrome.tabs.sendMessage(
+          tabId,
+          { action: "jumpToStep", step },
+          (response?: { reached: boolean }) => {
+            if (!response?.reached) {
+              message.error("Could not go back to that step.");
+            }
+          }
+        );
+      }
+    });
+  };
+
+  // Submits the application once the user confirmed, the autofill never does
+  const handleConfirmSubmit = () => {
+    chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
+      const tabId = tabs[0]?.id;
+      if (tabId) {
+        chrome.tabs.sendMessage(
+          tabId,
+          { action: "confirmSubmit" },
+          (response?: { submitted: boolean }) => {
+            if (response?.submitted) {
+              setReadyToSubmit(false);
+              setDiscrepancies(null);
+              message.success("Application submitted.");
+            } else {
+              message.error("Could not find the submit button.");
+            }
+          }
+        );
+      }
+    });
+  };
+
+  const handlePauseResume = () => {
+    sendRunControl(isPaused ? "resumeAutofill" : "pauseAutofill");
+    setIsPaused(!isPaused);
+  };
+
+  // Start autofill process, continuing the saved run when resume is set
+  const handleStartAutofill = async (resume: boolean = false) => {
     if (!isCompatibleSite) {
       message.error("This site is not supported.");
       return;
@@ -171,7 +348,12 @@ function App() {
       return;
     }
     setIsFilling(true);
+    setIsPaused(false);
+    setHaltedAt(null);
+    setDiscrepancies(null);
+    setReadyToSubmit(false);
     setAutofillProgress(0);
+    setTimings([]);
     await saveData("userData", userData);
 
     chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
@@ -180,30 +362,8 @@ function App() {
       if (tabId) {
         chrome.tabs.sendMessage(
           tabId,
-          { action: "fillThePage" },
-          (response) => {
-            if (response?.status === "done") {
-              setIsSuccess(true);
-              setTimeout(() => {
-                setIsFilling(false);
-                setIsSuccess(false);
-              }, 3000);
-            } else {
-              if (response?.error) {
-                setErrorMessage(
-                  "There was an unexpected error, Please try again" +
-                    "\n" +
-                    response?.error
-                );
-              }
-              setIsError(true);
-              setTimeout(() => {
-                setIsFilling(false);
-                setIsError(false);
-              }, 5000);
-              message.error("Failed to autofill fields.");
-            }
-          }
+          { action: "fillThePage", resume },
+          handleRunResult
         );
       }
     });
@@ -306,7 +466,7 @@ function App() {
                   style={{ flex: 1 }}
                 >
                   <Upload.Dragger
-                    accept=".docx,.txt"
+                    accept=".docx,.txt,.pdf"
                     beforeUpload={(file) => {
                       handleFileUpload(file);
                       return false;
@@ -331,12 +491,21 @@ function App() {
                       }}
                       className="ant-upload-hint"
                     >
-                      Drop your resume .docx, .txt
+                      Drop your resume .docx, .txt, .pdf
                     </p>
                   </Upload.Dragger>
                 </motion.div>
               )}
 
+              {/* Files To Attach */}
+              {!isFilling && isCompatibleSite && applicationUrl && (
+                <FilePicker
+                  applicationUrl={applicationUrl}
+                  darkMode={darkMode}
+                  refreshKey={storedFilesVersion}
+                />
+              )}
+
               {/* Additional Context */}
               {!isFilling && (
                 <div style={{ position: "relative", flex: 1, marginTop: 16 }}>
@@ -395,7 +564,7 @@ function App() {
                 <Button
                   type="primary"
                   icon={<PlayCircleOutlined />}
-                  onClick={handleStartAutofill}
+                  onClick={() => handleStartAutofill()}
                   block
                   disabled={isFilling}
                   style={{
@@ -406,6 +575,77 @@ function App() {
                   Start Autofill
                 </Button>
               </motion.div>
+              {/* Continue Run */}
+              {!isFilling && resumableRun && (
+                <Button
+                  icon={<RedoOutlined />}
+                  onClick={() => handleStartAutofill(true)}
+                  block
+                >
+                  Continue run
+                  {resumableRun.step ? ` from ${resumableRun.step}` : ""}
+                </Button>
+              )}
+              {/* Run Controls */}
+              {isFilling && !isSuccess && !isError && (
+                <Space style={{ width: "100%" }}>
+                  <Button
+                    icon={
+                      isPaused ? (
+                        <PlayCircleOutlined />
+                      ) : (
+                        <PauseCircleOutlined />
+                      )
+                    }
+                    onClick={handlePauseResume}
+                  >
+                    {isPaused ? "Resume" : "Pause"}
+                  </Button>
+                  <Button
+                    danger
+                    icon={<StopOutlined />}
+                    onClick={() => sendRunControl("stopAutofill")}
+                  >
+                    Stop
+                  </Button>
+                </Space>
+              )}
+              {/* Halted Run */}
+              {!isFilling && haltedAt && (
+                <Alert
+                  message={`Autofill stopped at ${haltedAt}`}
+                  type="info"
+                  showIcon
+                  closable
+                  onClose={() => setHaltedAt(null)}
+                />
+              )}
+              {/* Review Report */}
+              {!isFilling && discrepancies && (
+                <ReviewReport
+                  discrepancies={discrepancies}
+                  darkMode={darkMode}
+                  onJump={handleJumpToStep}
+                  onClose={() => setDiscrepancies(null)}
+                />
+              )}
+              {/* Final Submission */}
+              {!isFilling && readyToSubmit && (
+                <Popconfirm
+                  title="Submit this application?"
+                  description={
+                    discrepancies?.length
+                      ? `${discrepancies.length} answers still need your attention.`
+                      : "Workday will submit the application as reviewed."
+                  }
+                  okText="Submit"
+                  onConfirm={handleConfirmSubmit}
+                >
+                  <Button type="primary" danger icon={<SendOutlined />} block>
+                    Submit application
+                  </Button>
+                </Popconfirm>
+              )}
               {/* Autofill Progress */}
               {isFilling && !isSuccess && !isError && (
                 <>
@@ -449,6 +689,29 @@ function App() {
                   />
                 </>
               )}
+              {/* LLM Timings */}
+              {isFilling && !isSuccess && !isError && timings.length > 0 && (
+                <div style={{ textAlign: "left" }}>
+                  {timings.map((timing, index) => (
+                    <Text
+                      key={index}
+                      type="secondary"
+                      style={{
+                        display: "block",
+                        fontSize: 12,
+                        color: darkMode ? "#999" : undefined,
+                      }}
+                    >
+                      {timing.label}: prompt eval{" "}
+                      {formatMs(timing.promptEvalMs)} · generation{" "}
+                      {formatMs(timing.generationMs)} · total{" "}
+                      {formatMs(timing.totalMs)}
+                      {timing.cachedTokens !== null &&
+                        ` · ${timing.cachedTokens} cached tokens`}
+                    </Text>
+                  ))}
+                </div>
+              )}
               {/* Success Animation */}
               {isSuccess && (
                 <Lottie
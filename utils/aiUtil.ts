@@ -1,5 +1,26 @@
-import OpenAI from "openai";
 import { getData } from "./storageUtil";
+import {
+  extractJson,
+  JsonExtractionError,
+  processModelResponse,
+} from "./parserUtil";
+import { updateStatus, updateTimings } from "./commonUtils";
+import { createOptionSchema, StructuredSchema } from "./schemaUtil";
+import { selectProfileSections, selectRelevantResume } from "./retrievalUtil";
+import { ButtonKind, classifyButton, isForbiddenButton } from "./buttonUtil";
+import {
+  getRunLocation,
+  getRunSignal,
+  isRunStopped,
+  RunStoppedError,
+} from "./runControlUtil";
+import {
+  createProvider,
+  defaultBaseUrls,
+  GenerateResult,
+  LLMProvider,
+  LLMProviderAdapter,
+} from "./providerUtil";
 
 export enum LLM {
   Granite = "granite-3.1-8b-instruct",
@@ -10,53 +31,349 @@ export enum LLM {
   Deepseek = "deepseek-r1-distill-llama-8b",
 }
 
-// Utility function to create an OpenAI client with the latest config
-async function getOpenAI(): Promise<OpenAI> {
-  const baseURL = (await getData("baseUrl")) || "http://127.0.0.1:1234/v1";
-  const apiKey = (await getData("apiKey")) || "lm-studio";
-  return new OpenAI({
-    baseURL,
-    apiKey,
-    dangerouslyAllowBrowser: true,
+/** Model suggestions shown in the settings menu for each provider */
+export const providerModels: Record<LLMProvider, string[]> = {
+  [LLMProvider.OpenAICompatible]: Object.values(LLM),
+  [LLMProvider.Ollama]: [
+    "granite3.1-dense:8b",
+    "gemma2:2b",
+    "mistral:7b",
+    "hermes3:3b",
+    "qwen2.5:7b",
+    "deepseek-r1:8b",
+  ],
+  [LLMProvider.LlamaCpp]: Object.values(LLM),
+};
+
+/** Model requested from each provider until another one is picked */
+export const defaultModels: Record<LLMProvider, string> = {
+  [LLMProvider.OpenAICompatible]: LLM.HermesLlama,
+  [LLMProvider.Ollama]: "hermes3:3b",
+  // llama.cpp answers with the model it was started with whatever the id
+  [LLMProvider.LlamaCpp]: LLM.HermesLlama,
+};
+
+// Utility function to get the selected provider
+export async function getProviderType(): Promise<LLMProvider> {
+  const provider = await getData("llmProvider");
+  return Object.values(LLMProvider).includes(provider as LLMProvider)
+    ? (provider as LLMProvider)
+    : LLMProvider.OpenAICompatible; // Default if not set
+}
+
+// Utility function to create a provider adapter with the latest config
+async function getProvider(): Promise<LLMProviderAdapter> {
+  const provider = await getProviderType();
+  return createProvider(provider, {
+    baseUrl: (await getData("baseUrl")) || defaultBaseUrls[provider],
+    apiKey: (await getData("apiKey")) || "",
+    model: await getModel(provider),
+    temperature: parseFloat((await getData("temperature")) || "0.7"),
+    maxTokens: parseInt((await getData("maxTokens")) || "2000"),
   });
 }
 
 // Utility function to get the latest model
-async function getModel(): Promise<LLM> {
+async function getModel(provider: LLMProvider): Promise<string> {
   const model = await getData("llmModel");
-  return model ? (model as LLM) : LLM.HermesLlama; // Default if not set
+  return model || defaultModels[provider]; // Default if not set
+}
+
+/**
+ * Instructions shared by every request. Together with the resume data they
+ * form an identical prefix across all handlers so local servers (llama.cpp
+ * `cache_prompt`, LM Studio and Ollama KV reuse) only evaluate them once.
+ */
+const SHARED_INSTRUCTIONS = `You are an intelligent assistant helping a user complete a job application form on Workday. Use the user's saved data below whenever the task needs it, and follow the response format requested by the task exactly.`;
+
+/** Default maximum number of resume tokens sent with a request */
+export const DEFAULT_RESUME_TOKEN_BUDGET = 1500;
+
+// Utility function to get the resume token budget
+async function getResumeTokenBudget(): Promise<number> {
+  const budget = parseInt((await getData("resumeTokenBudget")) || "");
+  return budget > 0 ? budget : DEFAULT_RESUME_TOKEN_BUDGET;
+}
+
+/** Profile sections the current step is answered from, empty for all */
+let profileSections: string[] = [];
+
+/**
+ * Restricts the resume data sent with every request to the sections the
+ * current step is answered from (see `StepStrategy`).
+ * @param sections - The section names, empty to send every section
+ */
+export function setProfileSections(sections: string[]): void {
+  profileSections = sections;
+}
+
+// Builds the prefix, optionally including the resume data relevant to the
+// query. A resume within the token budget is sent whole so the prefix stays
+// identical across requests; longer resumes trade caching for fitting.
+async function buildPromptPrefix(
+  useResumeData: boolean,
+  query: string
+): Promise<string> {
+  if (!useResumeData) {
+    return SHARED_INSTRUCTIONS;
+  }
+  const resumeText = (await getData("userData")) || "";
+  const savedData = selectRelevantResume(
+    profileSections.length
+      ? selectProfileSections(resumeText, profileSections)
+      : resumeText,
+    query,
+    await getResumeTokenBudget()
+  );
+  return `${SHARED_INSTRUCTIONS}\n\nUser's resume data: ${JSON.stringify(
+    savedData
+  )}`;
+}
+
+// Surfaces the chain of thought of reasoning models in the status feed
+function reportReasoning(reasoning: string) {
+  updateStatus("Model reasoning...", reasoning, "");
+}
+
+// Reports a request aborted by the user as a stop instead of a server failure
+function toGenerationError(error: unknown): Error {
+  return isRunStopped()
+    ? new RunStoppedError(getRunLocation())
+    : new Error(`Failed to connect to the llm server: ${error}`);
 }
 
-// Unified text generation function
+/**
+ * Generates a free text response
+ * @param prompt - The field specific prompt, sent after the shared prefix
+ * @param label - The field the request is for, shown with its timings
+ * @param useResumeData - Whether the shared prefix includes the resume data
+ * @param resumeQuery - The text the relevant resume sections are selected by
+ * @returns The response without any reasoning
+ * @throws {Error} When the server is unreachable
+ * @throws {RunStoppedError} When the user stopped the run
+ */
 export async function generateText(
   prompt: string,
-  useResumeData: boolean = false
+  label: string,
+  useResumeData: boolean = false,
+  resumeQuery: string = label
 ): Promise<string> {
   try {
-    const openai = await getOpenAI(); // Fetch the latest OpenAI client
-    const model = await getModel(); // Fetch the latest model
-    const temperature = parseFloat((await getData("temperature")) || "0.7");
+    const provider = await getProvider(); // Fetch the latest provider
+    const prefix = await buildPromptPrefix(useResumeData, resumeQuery);
 
-    let fullPrompt = prompt;
+    const { content, timings } = await provider.generate({
+      prefix,
+      prompt,
+      signal: getRunSignal(),
+    });
+    updateTimings(label, timings);
+    return processModelResponse(content, reportReasoning);
+  } catch (error) {
+    throw toGenerationError(error);
+  }
+}
 
-    if (useResumeData) {
-      const savedData = await getData("userData");
-      const resumeData = `User's resume data: ${JSON.stringify(savedData)}`;
-      fullPrompt = `${resumeData}\n${prompt}`;
-    }
+/** How many times a response that cannot be used is re-prompted */
+const MAX_STRUCTURED_ATTEMPTS = 3;
 
-    const response = await openai.completions.create({
-      model,
-      prompt: fullPrompt,
-      temperature,
-    });
+// Asks the model to correct a response that could not be used
+function withCorrection(
+  prompt: string,
+  answer: string,
+  error: JsonExtractionError
+): string {
+  return `${prompt}
 
-    return response.choices[0].text;
+### Correction:
+Your previous response could not be used: ${error.message}
+Previous response: ${answer.slice(0, 500)}
+Respond again with only a valid JSON object in the requested structure.`;
+}
+
+/**
+ * Generates a JSON response that conforms to the given schema. Each provider
+ * constrains the output natively (json_schema, Ollama format, llama.cpp
+ * grammar) or falls back to prompt-only instructions. Responses that cannot be
+ * extracted or do not match the schema are re-prompted with the parse error.
+ * @param schema - The schema the response has to conform to
+ * @param prompt - The field specific prompt, sent after the shared prefix
+ * @param useResumeData - Whether the shared prefix includes the resume data
+ * @param label - The field the request is for, shown with its timings
+ * @param resumeQuery - The text the relevant resume sections are selected by
+ * @returns The parsed response
+ * @throws {Error} When the server is unreachable
+ * @throws {RunStoppedError} When the user stopped the run
+ * @throws {JsonExtractionError} When no attempt produced a usable response
+ */
+export async function generateStructured<T>(
+  schema: StructuredSchema,
+  prompt: string,
+  useResumeData: boolean = false,
+  label: string = schema.name,
+  resumeQuery: string = label
+): Promise<T> {
+  let provider: LLMProviderAdapter;
+  let prefix: string;
+  try {
+    provider = await getProvider();
+    prefix = await buildPromptPrefix(useResumeData, resumeQuery);
   } catch (error) {
     throw new Error(`Failed to connect to the llm server: ${error}`);
   }
+
+  let attemptPrompt = prompt;
+  let lastError: JsonExtractionError | null = null;
+
+  for (let attempt = 1; attempt <= MAX_STRUCTURED_ATTEMPTS; attempt++) {
+    let result: GenerateResult;
+    try {
+      result = await provider.generate({
+        prefix,
+        prompt: attemptPrompt,
+        schema,
+        signal: getRunSignal(),
+      });
+    } catch (error) {
+      throw toGenerationError(error);
+    }
+    updateTimings(label, result.timings);
+
+    const answer = processModelResponse(result.content, reportReasoning);
+    try {
+      return extractJson<T>(answer, schema.schema);
+    } catch (error) {
+      if (!(error instanceof JsonExtractionError)) {
+        throw error;
+      }
+      if (attempt < MAX_STRUCTURED_ATTEMPTS) {
+        updateStatus(
+          `Asking again for ${label}...`,
+          `Answer ${attempt} of ${MAX_STRUCTURED_ATTEMPTS} was unusable: ${error.message}`,
+          ""
+        );
+      }
+      lastError = error;
+      attemptPrompt = withCorrection(prompt, answer, error);
+    }
+  }
+
+  throw lastError!;
+}
+
+/**
+ * Outcome of the settings menu's connection test
+ * @interface ConnectionTestResult
+ */
+export interface ConnectionTestResult {
+  /** Whether the server answered the model listing */
+  connected: boolean;
+  /** Models the server reported, see `modelListLabels` */
+  models: string[];
+  /** Whether the configured model is among the reported models */
+  modelLoaded: boolean;
+  /** Time taken to list the models in milliseconds */
+  modelsLatencyMs: number;
+  /** Whether the model answered the JSON round-trip in the handlers' format */
+  jsonRoundTrip: boolean;
+  /** Time taken by the JSON round-trip in milliseconds */
+  roundTripLatencyMs: number | null;
+  /** Description of the first failure, if any */
+  error?: string;
+}
+
+/** The option ids offered in the JSON round-trip */
+const ROUND_TRIP_OPTION_IDS = ["option-yes", "option-no"];
+
+/**
+ * Checks that the configured server is up, reports the models it serves and
+ * runs a tiny JSON round-trip in the same format the field handlers use.
+ * @returns The result of the connection test
+ */
+export async function testConnection(): Promise<ConnectionTestResult> {
+  const providerType = await getProviderType();
+  const provider = await getProvider();
+  const model = await getModel(providerType);
+
+  let models: string[];
+  const modelsStart = performance.now();
+  try {
+    models = await provider.listModels();
+  } catch (error) {
+    return {
+      connected: false,
+      models: [],
+      modelLoaded: false,
+      modelsLatencyMs: Math.round(performance.now() - modelsStart),
+      jsonRoundTrip: false,
+      roundTripLatencyMs: null,
+      error: `Failed to connect to the llm server: ${error}`,
+    };
+  }
+  const modelsLatencyMs = Math.round(performance.now() - modelsStart);
+  // llama.cpp serves a single model regardless of the requested id
+  const modelLoaded =
+    models.includes(model) ||
+    (providerType === LLMProvider.LlamaCpp && models.length > 0);
+
+  const roundTripStart = performance.now();
+  try {
+    const completion = await generateStructured<{
+      reason: string;
+      optionId: string;
+    }>(
+      createOptionSchema("connection_test", "optionId", ROUND_TRIP_OPTION_IDS),
+      `
+    You are checking that you can answer in the required format.
+
+    ### Instructions:
+    1. Select the option that answers the label text.
+    2. Return a **JSON object** in this below structure:
+      { "reason": "reason for selecting the option", "optionId": "optionId" }
+
+    ### Inputs:
+    - **Label Text**: Is water wet?
+    - **Options Data**: ${JSON.stringify([
+      { optionText: "Yes", optionId: ROUND_TRIP_OPTION_IDS[0] },
+      { optionText: "No", optionId: ROUND_TRIP_OPTION_IDS[1] },
+    ])}
+
+    Respond only with the JSON object.
+  `,
+      false,
+      "Connection test"
+    );
+    const roundTripLatencyMs = Math.round(performance.now() - roundTripStart);
+    const jsonRoundTrip =
+      typeof completion?.reason === "string" &&
+      ROUND_TRIP_OPTION_IDS.includes(completion?.optionId);
+
+    return {
+      connected: true,
+      models,
+      modelLoaded,
+      modelsLatencyMs,
+      jsonRoundTrip,
+      roundTripLatencyMs,
+      error: jsonRoundTrip
+        ? undefined
+        : `Unexpected response: ${JSON.stringify(completion)}`,
+    };
+  } catch (error: any) {
+    return {
+      connected: true,
+      models,
+      modelLoaded,
+      modelsLatencyMs,
+      jsonRoundTrip: false,
+      roundTripLatencyMs: Math.round(performance.now() - roundTripStart),
+      error: error.message,
+    };
+  }
 }
 
+// Lists the buttons the model may pick from, leaving out going back and the
+// buttons the copilot never clicks (submit, withdraw, delete)
 function getAllButtonsData(): {
   dataAutomationId: string;
   textContent: string;
@@ -64,14 +381,31 @@ function getAllButtonsData(): {
   const buttons = document.querySelectorAll<HTMLButtonElement>(
     "button[data-automation-id]"
   );
-  return Array.from(buttons).map((button) => ({
-    dataAutomationId: button.getAttribute("data-automation-id") || "",
-    textContent: button.textContent?.trim() || "",
-  }));
+  return Array.from(buttons)
+    .filter(
+      (button) =>
+        !isForbiddenButton(button) && classifyButton(button) !== ButtonKind.Back
+    )
+    .map((button) => ({
+      dataAutomationId: button.getAttribute("data-automation-id") || "",
+      textContent: button.textContent?.trim() || "",
+    }));
 }
 
-export async function getSaveButtonId(): Promise<string> {
+/** How many times the model is asked for the next button */
+const MAX_NEXT_BUTTON_ATTEMPTS = 2;
+
+/**
+ * Asks the model which button proceeds to the next step, the last resort of
+ * the navigation resolver.
+ * @returns The automation id of the button, or null when the model did not
+ * pick a button on the page within the attempts
+ */
+export async function getSaveButtonId(): Promise<string | null> {
   const buttonData = getAllButtonsData();
+  if (!buttonData.length) {
+    return null;
+  }
 
   const buttonListString = buttonData
     .map(
@@ -82,9 +416,7 @@ export async function getSaveButtonId(): Promise<string> {
     )
     .join("\n");
 
-  const prompt = `You are an intelligent assistant helping a user complete a job ap
-    plication form on Workday. 
-    Your task is to identify the most appropriate button to proceed to the next step of the form. \n\n
+  const prompt = `Your task is to identify the most appropriate button to proceed to the next step of the form. \n\n
     ### Instructions:\n
     1. Analyze the **button text** and **Data-Automation-ID**.\n2. 
     Use the context provided by the button text to determine the best possible button for the action.\n
@@ -96,20 +428,29 @@ export async function getSaveButtonId(): Promise<string> {
     - **Buttons**:\n${buttonListString}\n\n
     Which button corresponds to the action to proceed? Respond only with a JSON object.`;
 
-  // Step 3: Use the helper function to query OpenAI
-  const result: {
-    reason: string;
-    dataAutomationId: string;
-  } = JSON.parse(await generateText(prompt));
+  for (let attempt = 1; attempt <= MAX_NEXT_BUTTON_ATTEMPTS; attempt++) {
+    const result = await generateStructured<{
+      reason: string;
+      dataAutomationId: string;
+    }>(
+      createOptionSchema(
+        "next_button",
+        "dataAutomationId",
+        buttonData.map((button) => button.dataAutomationId)
+      ),
+      prompt,
+      false, // The buttons alone tell which one proceeds
+      "Next button"
+    );
 
-  // check if the dataAutomationId is valid
-  const selectedButton = buttonData.find(
-    (button) => button.dataAutomationId === result.dataAutomationId
-  );
-
-  if (selectedButton) {
-    return result.dataAutomationId;
-  } else {
-    return await getSaveButtonId();
+    // check if the dataAutomationId is valid
+    if (
+      buttonData.some(
+        (button) => button.dataAutomationId === result.dataAutomationId
+      )
+    ) {
+      return result.dataAutomationId;
+    }
   }
+  return null;
 }
@@ -0,0 +1,117 @@
+// @vitest-environment happy-dom
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  ButtonGuardError,
+  ButtonKind,
+  classifyButton,
+  findButtons,
+  guardedClick,
+  isForbiddenButton,
+  isForwardButton,
+} from "./buttonUtil";
+
+/**
+ * Adds a button to the page
+ */
+function addButton(
+  text: string,
+  attributes: Record<string, string> = {}
+): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.textContent = text;
+  for (const [name, value] of Object.entries(attributes)) {
+    button.setAttribute(name, value);
+  }
+  document.body.append(button);
+  return button;
+}
+
+beforeEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("classifyButton", () => {
+  it.each([
+    ["Next", ButtonKind.Next],
+    ["Continue", ButtonKind.Next],
+    ["Save and Continue", ButtonKind.SaveAndContinue],
+    ["Save & Continue", ButtonKind.SaveAndContinue],
+    ["Back", ButtonKind.Back],
+    ["Submit", ButtonKind.Submit],
+    ["Apply", ButtonKind.Submit],
+    ["Withdraw Application", ButtonKind.Withdraw],
+    ["Delete", ButtonKind.Delete],
+    ["Remove Work Experience 1", ButtonKind.Delete],
+    ["Upload", ButtonKind.Other],
+  ])("classifies %s", (text, kind) => {
+    expect(classifyButton(addButton(text))).toBe(kind);
+  });
+
+  it.each([
+    ["Discard and Continue", ButtonKind.Delete],
+    ["Submit and Continue", ButtonKind.Submit],
+    ["Save and Continue to Withdraw", ButtonKind.Withdraw],
+  ])("lets forbidden text in %s beat forward text", (text, kind) => {
+    const button = addButton(text);
+
+    expect(classifyButton(button)).toBe(kind);
+    expect(isForbiddenButton(button)).toBe(true);
+    expect(isForwardButton(button)).toBe(false);
+  });
+
+  it("lets forbidden text beat a next button's automation id", () => {
+    const button = addButton("Submit", {
+      "data-automation-id": "bottom-navigation-next-button",
+    });
+
+    expect(classifyButton(button)).toBe(ButtonKind.Submit);
+  });
+
+  it("reads the aria label of buttons without text", () => {
+    expect(classifyButton(addButton("", { "aria-label": "Delete" }))).toBe(
+      ButtonKind.Delete
+    );
+  });
+
+  it.each([
+    ["bottom-navigation-next-button", ButtonKind.Next],
+    ["bottom-navigation-save-continue-button", ButtonKind.SaveAndContinue],
+    ["bottom-navigation-previous-button", ButtonKind.Back],
+    ["click_filter-submit", ButtonKind.Submit],
+  ])("classifies the automation id %s", (automationId, kind) => {
+    const button = addButton("", { "data-automation-id": automationId });
+
+    expect(classifyButton(button)).toBe(kind);
+  });
+});
+
+describe("findButtons", () => {
+  it("returns the buttons of a kind in document order", () => {
+    const first = addButton("Next");
+    addButton("Back");
+    const second = addButton("Continue");
+
+    expect(findButtons(ButtonKind.Next)).toEqual([first, second]);
+  });
+});
+
+describe("guardedClick", () => {
+  it("clicks a forward button", () => {
+    const button = addButton("Save and Continue");
+    const onClick = vi.fn();
+    button.addEventListener("click", onClick);
+
+    guardedClick(button);
+
+    expect(onClick).toHaveBeenCalledOnce();
+  });
+
+  it("refuses a forbidden button without clicking it", () => {
+    const button = addButton("Discard and Continue");
+    const onClick = vi.fn();
+    button.addEventListener("click", onClick);
+
+    expect(() => guardedClick(button)).toThrow(ButtonGuardError);
+    expect(onClick).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Deterministic classification of the buttons of a Workday application. The
+ * copilot only ever navigates with buttons it classified as safe, so a model
+ * that picks the wrong button cannot submit, withdraw or delete anything.
+ */
+
+/**
+ * What clicking a button does
+ * @enum {string}
+ */
+export enum ButtonKind {
+  Next = "next",
+  SaveAndContinue = "saveAndContinue",
+  Back = "back",
+  Submit = "submit",
+  Withdraw = "withdraw",
+  Delete = "delete",
+  Other = "other",
+}
+
+/**
+ * Custom error class for clicks the guard refuses
+ */
+export class ButtonGuardError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "ButtonGuardError";
+  }
+}
+
+/** Buttons the copilot never clicks, final submission is up to the user */
+const FORBIDDEN_KINDS = new Set([
+  ButtonKind.Submit,
+  ButtonKind.Withdraw,
+  ButtonKind.Delete,
+]);
+
+/** Buttons that move the application to the next step */
+const FORWARD_KINDS = new Set([ButtonKind.Next, ButtonKind.SaveAndContinue]);
+
+/**
+ * Text patterns of each kind, checked in order. The forbidden kinds come first
+ * as Workday relabels the next button "Submit" on the last step.
+ */
+const TEXT_PATTERNS: { kind: ButtonKind; pattern: RegExp }[] = [
+  { kind: ButtonKind.Withdraw, pattern: /withdraw/i },
+  { kind: ButtonKind.Delete, pattern: /delete|remove|discard/i },
+  { kind: ButtonKind.Submit, pattern: /submit|send application|^apply$/i },
+  { kind: ButtonKind.Back, pattern: /^(back|previous)$/i },
+  { kind: ButtonKind.SaveAndContinue, pattern: /save (and|&) continue/i },
+  { kind: ButtonKind.Next, pattern: /^(next|continue)$/i },
+];
+
+/** Automation ids of the navigation buttons */
+const AUTOMATION_IDS: Record<string, ButtonKind> = {
+  "bottom-navigation-next-button": ButtonKind.Next,
+  "bottom-navigation-previous-button": ButtonKind.Back,
+  "bottom-navigation-save-continue-button": ButtonKind.SaveAndContinue,
+};
+
+/**
+ * Classifies a button from its text, accessible name and automation id.
+ * Text that reads like a forbidden action always wins over the automation id.
+ * @param button - The button to classify
+ * @returns What clicking the button does
+ */
+export function classifyButton(button: HTMLElement): ButtonKind {
+  const texts = [
+    button.textContent?.trim() || "",
+    button.getAttribute("aria-label") || "",
+  ].filter(Boolean);
+  const automationId = button.getAttribute("data-automation-id") || "";
+
+  const textKind = TEXT_PATTERNS.find(({ pattern }) =>
+    texts.some((text) => pattern.test(text))
+  )?.kind;
+  if (textKind && FORBIDDEN_KINDS.has(textKind)) {
+    return textKind;
+  }
+  if (/submit/i.test(automationId)) {
+    return ButtonKind.Submit;
+  }
+  return AUTOMATION_IDS[automationId] || textKind || ButtonKind.Other;
+}
+
+/**
+ * Checks whether a button submits, withdraws or deletes the application
+ * @param button - The button to check
+ */
+export function isForbiddenButton(button: HTMLElement): boolean {
+  return FORBIDDEN_KINDS.has(classifyButton(button));
+}
+
+/**
+ * Checks whether a button moves the application forward without submitting
+ * @param button - The button to check
+ */
+export function isForwardButton(button: HTMLElement): boolean {
+  return FORWARD_KINDS.has(classifyButton(button));
+}
+
+/**
+ * Finds the buttons of a kind on the page
+ * @param kind - The kind of button
+ * @returns The buttons in document order
+ */
+export function findButtons(kind: ButtonKind): HTMLButtonElement[] {
+  return Array.from(document.querySelectorAll("button")).filter(
+    (button) => classifyButton(button) === kind
+  );
+}
+
+/**
+ * Clicks a button unless it would submit, withdraw or delete the application.
+ * Every navigation click of the copilot goes through here.
+ * @param button - The button to click
+ * @throws {ButtonGuardError} When the button is one the copilot never clicks
+ */
+export function guardedClick(button: HTMLElement): void {
+  const kind = classifyButton(button);
+  if (FORBIDDEN_KINDS.has(kind)) {
+    throw new ButtonGuardError(
+      `Refused to click the ${kind} button "${button.textContent?.trim()}"`,
+      "FORBIDDEN_BUTTON",
+      { kind, automationId: button.getAttribute("data-automation-id") }
+    );
+  }
+  button.click();
+}
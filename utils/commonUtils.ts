@@ -1,3 +1,5 @@
+import type { GenerationTimings } from "./providerUtil";
+
 // Helper function for delays
 export function delay(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
@@ -56,6 +58,49 @@ export async function simulateTyping(
   inputElement.dispatchEvent(new Event("input", { bubbles: true }));
 }
 
+/**
+ * Inserts text into an input or textarea at once. The value goes through the
+ * native setter so React based forms register the change.
+ *
+ * @param {HTMLInputElement | HTMLTextAreaElement} inputElement - The element to fill.
+ * @param {string} text - The text to insert.
+ */
+export function insertText(
+  inputElement: HTMLInputElement | HTMLTextAreaElement,
+  text: string
+) {
+  const prototype =
+    inputElement instanceof HTMLTextAreaElement
+      ? HTMLTextAreaElement.prototype
+      : HTMLInputElement.prototype;
+  const setValue = Object.getOwnPropertyDescriptor(prototype, "value")?.set;
+
+  inputElement.focus();
+  if (setValue) {
+    setValue.call(inputElement, text);
+  } else {
+    inputElement.value = text;
+  }
+
+  for (const type of ["input", "change", "blur", "focusout"]) {
+    inputElement.dispatchEvent(new Event(type, { bubbles: true }));
+  }
+}
+
+/**
+ * Closes an open dropdown or prompt popup by pressing Escape on its input.
+ *
+ * @param {HTMLElement} inputElement - The element that opened the popup.
+ */
+export function dismissPopup(inputElement: HTMLElement) {
+  for (const type of ["keydown", "keyup"]) {
+    inputElement.dispatchEvent(
+      new KeyboardEvent(type, { bubbles: true, key: "Escape", keyCode: 27 })
+    );
+  }
+  inputElement.blur();
+}
+
 export function getTextContentAbove(inputElement: HTMLInputElement): string {
   let textContent = "";
   let currentElement: HTMLElement | null = inputElement;
@@ -119,6 +164,13 @@ export function updateStatus(action: string, reason: string, value: string) {
   });
 }
 
+export function updateTimings(label: string, timings: GenerationTimings) {
+  chrome.runtime.sendMessage({
+    action: "updateTimings",
+    payload: { label, ...timings },
+  });
+}
+
 export const sectionHeadings: Record<string, string[]> = {
   Personal_Information: [
     "PERSONAL INFORMATION",
@@ -201,6 +253,47 @@ export const sectionHeadings: Record<string, string[]> = {
   ],
 };
 
+/**
+ * Splits resume text produced by `formatResume` back into its sections.
+ * @param formattedText - The formatted resume text
+ * @param sectionNames - The section headings to look for
+ * @returns The content of every section, empty for sections not found
+ */
+export function parseSections(
+  formattedText: string,
+  sectionNames: string[] = Object.keys(sectionHeadings)
+): Record<string, string> {
+  const lines = formattedText.split("\n");
+  const parsedSections: Record<string, string> = {};
+  let currentSection: string | null = null;
+  let sectionsFound: string[] = [];
+
+  for (const line of lines) {
+    const trimmedLine = line.trim();
+    if (!trimmedLine) continue;
+
+    if (sectionNames.includes(trimmedLine)) {
+      currentSection = trimmedLine;
+      sectionsFound.push(trimmedLine);
+      parsedSections[currentSection] = "";
+      continue;
+    }
+
+    if (currentSection) {
+      parsedSections[currentSection] += `${line}\n`;
+    }
+  }
+
+  // Initialize empty sections for any missing ones
+  sectionNames.forEach((section) => {
+    if (!sectionsFound.includes(section)) {
+      parsedSections[section] = "";
+    }
+  });
+
+  return parsedSections;
+}
+
 export function formatResume(resumeText: string): string {
   const lines = resumeText.split("\n");
   let formattedText = "";
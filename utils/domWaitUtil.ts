@@ -0,0 +1,158 @@
+import { getProgressBarStep } from "./progressUtils";
+import { getRunSignal } from "./runControlUtil";
+
+/**
+ * Options shared by the DOM waits
+ * @interface WaitOptions
+ */
+export interface WaitOptions {
+  /** Longest time to wait in milliseconds */
+  timeout?: number;
+  /** The part of the page to watch, the whole document by default */
+  root?: Element | Document;
+}
+
+/** Longest time to wait for the page by default in milliseconds */
+export const DEFAULT_WAIT_TIMEOUT = 5000;
+
+/** Time without DOM changes after which the page counts as settled */
+const QUIET_PERIOD = 300;
+
+/** The DOM changes that wake up a wait */
+const OBSERVER_OPTIONS: MutationObserverInit = {
+  childList: true,
+  subtree: true,
+  attributes: true,
+  characterData: true,
+};
+
+/**
+ * Waits until a condition holds, checking it again whenever the watched part
+ * of the DOM changes. A stopped run ends the wait right away.
+ * @param check - Returns a truthy value once the wait is over
+ * @param options - Timeout and the part of the page to watch
+ * @returns The value of the check, or null when it timed out
+ */
+export function waitFor<T>(
+  check: () => T | null | undefined | false,
+  { timeout = DEFAULT_WAIT_TIMEOUT, root = document }: WaitOptions = {}
+): Promise<T | null> {
+  return new Promise((resolve) => {
+    const initialValue = check();
+    const signal = getRunSignal();
+    if (initialValue || signal?.aborted) {
+      resolve(initialValue || null);
+      return;
+    }
+
+    const finish = (value: T | null) => {
+      observer.disconnect();
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      resolve(value);
+    };
+    const onAbort = () => finish(null);
+
+    const observer = new MutationObserver(() => {
+      const value = check();
+      if (value) {
+        finish(value);
+      }
+    });
+    observer.observe(root, OBSERVER_OPTIONS);
+    const timer = setTimeout(() => finish(check() || null), timeout);
+    signal?.addEventListener("abort", onAbort);
+  });
+}
+
+/**
+ * Waits for an element to be rendered.
+ * @param selector - The selector of the element
+ * @param options - Timeout and the part of the page to search
+ * @returns The element, or null when it did not show up in time
+ */
+export function waitForElement<T extends Element = HTMLElement>(
+  selector: string,
+  options: WaitOptions = {}
+): Promise<T | null> {
+  const root = options.root || document;
+  return waitFor(() => root.querySelector<T>(selector), options);
+}
+
+/**
+ * Waits for the listbox a dropdown controls (see `aria-controls`) to list
+ * its options.
+ * @param inputElement - The element opening the dropdown
+ * @param optionSelector - The selector of an option inside the listbox
+ * @param options - Timeout of the wait
+ * @returns Whether the listbox has options
+ */
+export async function waitForListbox(
+  inputElement: HTMLElement,
+  optionSelector = '[role="option"], li',
+  options: WaitOptions = {}
+): Promise<boolean> {
+  const option = await waitFor(() => {
+    const listboxId = inputElement.getAttribute("aria-controls");
+    return (
+      listboxId &&
+      document.getElementById(listboxId)?.querySelector(optionSelector)
+    );
+  }, options);
+  return !!option;
+}
+
+/**
+ * Waits for Workday to move to another step of the application.
+ * @param previousStep - The step before navigating, see `getProgressBarStep`
+ * @param options - Timeout of the wait
+ * @returns The new step, or null when the step did not change in time
+ */
+export function waitForStepChange(
+  previousStep: string,
+  options: WaitOptions = {}
+): Promise<string | null> {
+  return waitFor(() => {
+    const step = getProgressBarStep();
+    return step && step !== previousStep ? step : null;
+  }, options);
+}
+
+/**
+ * Waits until the DOM stops changing for a moment, which is when Workday has
+ * finished loading and rendering after a request.
+ * @param options - Timeout, the part of the page to watch and the time
+ * without changes that counts as settled
+ * @returns Whether the page settled before the timeout
+ */
+export function waitForQuiescence({
+  timeout = DEFAULT_WAIT_TIMEOUT,
+  root = document,
+  quietPeriod = QUIET_PERIOD,
+}: WaitOptions & { quietPeriod?: number } = {}): Promise<boolean> {
+  return new Promise((resolve) => {
+    const signal = getRunSignal();
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+
+    const finish = (settled: boolean) => {
+      observer.disconnect();
+      clearTimeout(quietTimer);
+      clearTimeout(timeoutTimer);
+      signal?.removeEventListener("abort", onAbort);
+      resolve(settled);
+    };
+    const onAbort = () => finish(false);
+
+    let quietTimer = setTimeout(() => finish(true), quietPeriod);
+    const observer = new MutationObserver(() => {
+      clearTimeout(quietTimer);
+      quietTimer = setTimeout(() => finish(true), quietPeriod);
+    });
+    observer.observe(root, OBSERVER_OPTIONS);
+    const timeoutTimer = setTimeout(() => finish(false), timeout);
+    signal?.addEventListener("abort", onAbort);
+  });
+}
@@ -1,3 +1,5 @@
+import { getJsonData, saveData } from "./storageUtil";
+
 export function downloadTextFile(text: string): void {
   // Create a blob with the text content
   const blob = new Blob([text], { type: "text/plain" });
@@ -17,3 +19,160 @@ export function downloadTextFile(text: string): void {
   // Clean up the URL object
   window.URL.revokeObjectURL(link.href);
 }
+
+/**
+ * The documents a Workday application asks to upload
+ * @enum {string}
+ */
+export enum StoredFileKind {
+  Resume = "resume",
+  CoverLetter = "coverLetter",
+}
+
+/**
+ * An uploaded file kept in extension storage for attaching to applications
+ * @interface StoredFile
+ */
+export interface StoredFile {
+  id: string;
+  name: string;
+  /** The MIME type of the file */
+  type: string;
+  kind: StoredFileKind;
+  /** The file content as a base64 data URL */
+  dataUrl: string;
+  /** Time the file was added in milliseconds since the epoch */
+  addedAt: number;
+}
+
+/** The stored file chosen for each kind, null to attach nothing */
+export type FileChoice = Partial<Record<StoredFileKind, string | null>>;
+
+/** Storage key of the stored files */
+const STORED_FILES_KEY = "storedFiles";
+
+/** Storage key of the file choices, keyed by application URL */
+const FILE_CHOICES_KEY = "fileChoices";
+
+/**
+ * Reads a file as a base64 data URL
+ */
+function readAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Lists the stored files, most recently added first.
+ * @param kind - When given, only files of this kind are returned
+ */
+export async function getStoredFiles(
+  kind?: StoredFileKind
+): Promise<StoredFile[]> {
+  const files = await getJsonData<StoredFile[]>(STORED_FILES_KEY, []);
+  return files
+    .filter((file) => !kind || file.kind === kind)
+    .sort((a, b) => b.addedAt - a.addedAt);
+}
+
+/**
+ * Keeps a copy of an uploaded file. A file with the same name and kind is
+ * replaced.
+ * @param file - The uploaded file
+ * @param kind - What the file is used for
+ * @returns The stored file
+ */
+export async function storeFile(
+  file: File,
+  kind: StoredFileKind
+): Promise<StoredFile> {
+  const storedFile: StoredFile = {
+    id: `${kind}-${Date.now()}`,
+    name: file.name,
+    type: file.type,
+    kind,
+    dataUrl: await readAsDataUrl(file),
+    addedAt: Date.now(),
+  };
+
+  const files = (await getStoredFiles()).filter(
+    (existing) => existing.name !== file.name || existing.kind !== kind
+  );
+  await saveData(STORED_FILES_KEY, JSON.stringify([storedFile, ...files]));
+  return storedFile;
+}
+
+/**
+ * Deletes a stored file.
+ * @param id - The id of the file
+ */
+export async function removeStoredFile(id: string): Promise<void> {
+  const files = (await getStoredFiles()).filter((file) => file.id !== id);
+  await saveData(STORED_FILES_KEY, JSON.stringify(files));
+}
+
+/**
+ * Recreates a `File` from a stored file so it can be attached to an input.
+ * @param storedFile - The stored file
+ */
+export function toFile({ dataUrl, name, type }: StoredFile): File {
+  const base64 = dataUrl.slice(dataUrl.indexOf(",") + 1);
+  const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+  return new File([bytes], name, { type });
+}
+
+/**
+ * Returns the files chosen for an application.
+ * @param applicationUrl - The application, see `getApplicationUrl`
+ */
+export async function getFileChoice(
+  applicationUrl: string
+): Promise<FileChoice> {
+  const choices = await getJsonData<Record<string, FileChoice>>(
+    FILE_CHOICES_KEY,
+    {}
+  );
+  return choices[applicationUrl] || {};
+}
+
+/**
+ * Saves the file chosen for an application.
+ * @param applicationUrl - The application, see `getApplicationUrl`
+ * @param kind - The kind of document
+ * @param fileId - The chosen file, null to attach nothing
+ */
+export async function saveFileChoice(
+  applicationUrl: string,
+  kind: StoredFileKind,
+  fileId: string | null
+): Promise<void> {
+  const choices = await getJsonData<Record<string, FileChoice>>(
+    FILE_CHOICES_KEY,
+    {}
+  );
+  choices[applicationUrl] = { ...choices[applicationUrl], [kind]: fileId };
+  await saveData(FILE_CHOICES_KEY, JSON.stringify(choices));
+}
+
+/**
+ * Resolves the file to attach for an application: the chosen one, or the
+ * most recently added file of the kind when nothing was chosen.
+ * @param applicationUrl - The application, see `getApplicationUrl`
+ * @param kind - The kind of document
+ * @returns The file, or null when none should be attached
+ */
+export async function getFileForApplication(
+  applicationUrl: string,
+  kind: StoredFileKind
+): Promise<StoredFile | null> {
+  const files = await getStoredFiles(kind);
+  const choice = (await getFileChoice(applicationUrl))[kind];
+  if (choice === null) {
+    return null;
+  }
+  return files.find((file) => file.id === choice) || files[0] || null;
+}
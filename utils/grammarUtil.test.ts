@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { schemaToGbnf } from "./grammarUtil";
+
+/**
+ * Splits a grammar into its rules, keyed by rule name
+ */
+function parseRules(grammar: string): Map<string, string> {
+  const rules = new Map<string, string>();
+  for (const line of grammar.split("\n")) {
+    const [name, body] = line.split(" ::= ");
+    expect(rules.has(name), `rule ${name} is defined twice`).toBe(false);
+    rules.set(name, body);
+  }
+  return rules;
+}
+
+/**
+ * Returns the rule names a rule body refers to, leaving out literals and
+ * character classes
+ */
+function referencedRules(body: string): string[] {
+  const withoutLiterals = body
+    .replace(/"(?:[^"\\]|\\.)*"/g, " ")
+    .replace(/\[(?:[^\]\\]|\\.)*\]/g, " ");
+  return withoutLiterals.match(/[a-z][a-z0-9-]*/g) || [];
+}
+
+describe("schemaToGbnf", () => {
+  it("emits the properties of an object in order", () => {
+    const rules = parseRules(
+      schemaToGbnf({
+        type: "object",
+        properties: { reason: { type: "string" }, count: { type: "integer" } },
+        required: ["reason", "count"],
+      })
+    );
+
+    expect(rules.get("root")).toBe(
+      '"{" ws "\\"reason\\"" ws ":" ws string "," ws "\\"count\\"" ws ":" ws integer "}" ws'
+    );
+    expect([...rules.keys()]).toEqual(["root", "ws", "string", "integer"]);
+  });
+
+  it("restricts enums to their values", () => {
+    const rules = parseRules(
+      schemaToGbnf({
+        type: "object",
+        properties: { id: { type: "string", enum: ["option-1", "none"] } },
+      })
+    );
+
+    expect(rules.get("root-id")).toBe('( "\\"option-1\\"" | "\\"none\\"" ) ws');
+    expect(rules.get("root")).toContain("root-id");
+  });
+
+  it.each([
+    [undefined, '"[" ws ( string ( "," ws string )* )? "]" ws'],
+    [1, '"[" ws ( string )? "]" ws'],
+    [3, '"[" ws ( string ( "," ws string ( "," ws string )? )? )? "]" ws'],
+  ])("limits arrays to maxItems %s", (maxItems, expected) => {
+    const rules = parseRules(
+      schemaToGbnf({ type: "array", items: { type: "string" }, maxItems })
+    );
+
+    expect(rules.get("root")).toBe(expected);
+  });
+
+  it("offers every type of a type union", () => {
+    const rules = parseRules(schemaToGbnf({ type: ["string", "null"] }));
+
+    expect(rules.get("root")).toBe("string | null");
+    expect(rules.has("null")).toBe(true);
+  });
+
+  it("gives paths that lowercase alike their own rules", () => {
+    const grammar = schemaToGbnf({
+      type: "object",
+      properties: {
+        Choice: { type: "string", enum: ["a"] },
+        choice: { type: "string", enum: ["b"] },
+        CHOICE: { type: "string", enum: ["c"] },
+      },
+    });
+    const rules = parseRules(grammar);
+
+    expect(rules.get("root-choice")).toBe('( "\\"a\\"" ) ws');
+    expect(rules.get("root-choice-2")).toBe('( "\\"b\\"" ) ws');
+    expect(rules.get("root-choice-3")).toBe('( "\\"c\\"" ) ws');
+  });
+
+  it("defines every rule it refers to", () => {
+    const rules = parseRules(
+      schemaToGbnf({
+        type: "object",
+        properties: {
+          entries: {
+            type: "array",
+            maxItems: 2,
+            items: {
+              type: "object",
+              properties: {
+                name: { type: "string" },
+                level: { type: ["number", "null"] },
+                fluent: { type: "boolean" },
+                item: { type: "string", enum: ["x"] },
+              },
+            },
+          },
+        },
+      })
+    );
+
+    for (const body of rules.values()) {
+      for (const name of referencedRules(body)) {
+        expect(rules.has(name), `rule ${name} is not defined`).toBe(true);
+      }
+    }
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Converts the JSON schemas used by the field handlers into GBNF grammars for
+ * llama.cpp's `grammar` parameter. Supports the subset the handlers use:
+ * objects, arrays, strings (optionally enum constrained), numbers, integers,
+ * booleans and null.
+ */
+
+/** Primitive rules shared by every grammar */
+const PRIMITIVE_RULES: Record<string, string> = {
+  ws: "[ \\t\\n]*",
+  string:
+    '"\\"" ( [^"\\\\\\x7F\\x00-\\x1F] | "\\\\" ( ["\\\\/bfnrt] | "u" [0-9a-fA-F] [0-9a-fA-F] [0-9a-fA-F] [0-9a-fA-F] ) )* "\\"" ws',
+  number:
+    '"-"? ( [0-9] | [1-9] [0-9]* ) ( "." [0-9]+ )? ( [eE] [-+]? [0-9]+ )? ws',
+  integer: '"-"? ( [0-9] | [1-9] [0-9]* ) ws',
+  boolean: '( "true" | "false" ) ws',
+  null: '"null" ws',
+};
+
+type JsonSchemaNode = Record<string, any>;
+
+/**
+ * Quotes a JSON value as a GBNF string literal.
+ * @param value - The value to quote
+ * @returns The literal, e.g. `"\"reason\""` for the key reason
+ */
+function jsonLiteral(value: unknown): string {
+  return JSON.stringify(JSON.stringify(value));
+}
+
+/**
+ * Builds a GBNF rule name from a schema path.
+ * @param path - The path segments leading to the node
+ * @returns A rule name containing only lowercase letters, digits and dashes
+ */
+function ruleName(path: string[]): string {
+  return path
+    .join("-")
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, "-");
+}
+
+/**
+ * Converts a JSON schema into a GBNF grammar.
+ * @param schema - The JSON schema to convert
+ * @returns The grammar with `root` as its entry rule
+ */
+export function schemaToGbnf(schema: JsonSchemaNode): string {
+  const rules = new Map<string, string>();
+  const usedPrimitives = new Set<string>(["ws"]);
+  const usedNames = new Set<string>(Object.keys(PRIMITIVE_RULES));
+
+  // Paths differing only in case or punctuation share a name, so a repeated
+  // name gets a counter suffix
+  const allocateName = (path: string[]): string => {
+    const baseName = ruleName(path);
+    let name = baseName;
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${baseName}-${suffix}`;
+    }
+    usedNames.add(name);
+    return name;
+  };
+
+  const visit = (node: JsonSchemaNode, path: string[]): string => {
+    if (Array.isArray(node.enum)) {
+      const name = allocateName(path);
+      const alternatives = node.enum.map(jsonLiteral).join(" | ");
+      rules.set(name, `( ${alternatives} ) ws`);
+      return name;
+    }
+
+    if (Array.isArray(node.type)) {
+      const name = allocateName(path);
+      const alternatives = node.type.map((type: string, index: number) =>
+        visit({ ...node, type }, [...path, String(index)])
+      );
+      rules.set(name, alternatives.join(" | "));
+      return name;
+    }
+
+    switch (node.type) {
+      case "object": {
+        const name = allocateName(path);
+        const properties = Object.entries<JsonSchemaNode>(
+          node.properties || {}
+        );
+        const members = properties.map(
+          ([key, property]) =>
+            `${jsonLiteral(key)} ws ":" ws ${visit(property, [...path, key])}`
+        );
+        rules.set(
+          name,
+          `"{" ws ${members.length ? members.join(' "," ws ') + " " : ""}"}" ws`
+        );
+        return name;
+      }
+      case "array": {
+        const name = allocateName(path);
+        const item = visit(node.items || { type: "string" }, [...path, "item"]);
+        const maxItems: number | undefined = node.maxItems;
+        const tail =
+          maxItems === undefined
+            ? `( "," ws ${item} )*`
+            : Array(Math.max(maxItems - 1, 0))
+                .fill(`( "," ws ${item}`)
+                .join(" ") + " )?".repeat(Math.max(maxItems - 1, 0));
+        const elements = [item, tail.trim()].filter(Boolean).join(" ");
+        rules.set(name, `"[" ws ( ${elements} )? "]" ws`);
+        return name;
+      }
+      case "string":
+      case "number":
+      case "integer":
+      case "boolean":
+      case "null":
+        usedPrimitives.add(node.type);
+        return node.type;
+      default:
+        usedPrimitives.add("string");
+        return "string";
+    }
+  };
+
+  const rootRule = visit(schema, ["root"]);
+  if (rootRule !== "root") {
+    rules.set("root", rootRule);
+  }
+
+  const primitives = Array.from(usedPrimitives).map(
+    (name) => `${name} ::= ${PRIMITIVE_RULES[name]}`
+  );
+  const composites = Array.from(rules.entries()).map(
+    ([name, body]) => `${name} ::= ${body}`
+  );
+
+  return [...composites, ...primitives].join("\n");
+}
@@ -0,0 +1,160 @@
+import { getSaveButtonId } from "./aiUtil";
+import {
+  ButtonKind,
+  classifyButton,
+  findButtons,
+  isForbiddenButton,
+  isForwardButton,
+} from "./buttonUtil";
+import { getJsonData, saveData } from "./storageUtil";
+
+/**
+ * How the next button was found, from the cheapest and most reliable way to
+ * the model as the last resort
+ * @enum {string}
+ */
+export enum NavigationStrategy {
+  KnownId = "knownId",
+  Text = "text",
+  TenantCache = "tenantCache",
+  Llm = "llm",
+}
+
+/**
+ * The button that proceeds to the next step
+ * @interface ResolvedNextButton
+ */
+export interface ResolvedNextButton {
+  button: HTMLButtonElement;
+  /** The automation id of the button, empty when it has none */
+  automationId: string;
+  strategy: NavigationStrategy;
+}
+
+/** Automation ids Workday gives its next buttons */
+const KNOWN_NEXT_IDS = [
+  "bottom-navigation-next-button",
+  "bottom-navigation-save-continue-button",
+  "pageFooterNextButton",
+];
+
+/** Storage key of the next button ids found by the model, keyed by tenant */
+const NAVIGATION_CACHE_KEY = "navigationCache";
+
+/**
+ * Finds the button that proceeds to the next step. Known automation ids and
+ * button texts are tried first, then the id the model found earlier on the
+ * same Workday tenant, and only then the model. Buttons that submit, withdraw
+ * or delete are never returned.
+ * @param tenant - The Workday tenant, see `getTenant`
+ * @returns The button and the strategy that found it, or null when none did
+ */
+export async function resolveNextButton(
+  tenant: string = getTenant(location.href)
+): Promise<ResolvedNextButton | null> {
+  const knownButton = KNOWN_NEXT_IDS.map((id) => findByAutomationId(id)).find(
+    (button) => button && isForwardButton(button)
+  );
+  if (knownButton) {
+    return resolved(knownButton, NavigationStrategy.KnownId);
+  }
+
+  const [textButton] = [
+    ...findButtons(ButtonKind.SaveAndContinue),
+    ...findButtons(ButtonKind.Next),
+  ];
+  if (textButton) {
+    return resolved(textButton, NavigationStrategy.Text);
+  }
+
+  const cachedId = (await getNavigationCache())[tenant];
+  const cachedButton = cachedId && findByAutomationId(cachedId);
+  if (cachedButton && isNavigable(cachedButton)) {
+    return resolved(cachedButton, NavigationStrategy.TenantCache);
+  }
+
+  const llmId = await getSaveButtonId();
+  const llmButton = llmId && findByAutomationId(llmId);
+  if (llmButton && isNavigable(llmButton)) {
+    return resolved(llmButton, NavigationStrategy.Llm);
+  }
+
+  return null;
+}
+
+/**
+ * Updates the tenant cache once clicking a resolved button showed whether it
+ * navigates: the model's pick is cached when it reached the next step, and a
+ * cached id that did not is dropped so the model is asked again.
+ * @param resolvedButton - The button that was clicked
+ * @param navigated - Whether the next step was shown after the click
+ * @param tenant - The Workday tenant, see `getTenant`
+ */
+export async function recordNavigationOutcome(
+  { automationId, strategy }: ResolvedNextButton,
+  navigated: boolean,
+  tenant: string = getTenant(location.href)
+): Promise<void> {
+  const cache = await getNavigationCache();
+  if (navigated && strategy === NavigationStrategy.Llm && automationId) {
+    cache[tenant] = automationId;
+  } else if (!navigated && strategy === NavigationStrategy.TenantCache) {
+    delete cache[tenant];
+  } else {
+    return;
+  }
+  await saveData(NAVIGATION_CACHE_KEY, JSON.stringify(cache));
+}
+
+/**
+ * Returns the Workday tenant of a page, the host name its applications share
+ * (e.g. "acme.wd5.myworkdayjobs.com").
+ * @param url - The page URL
+ */
+export function getTenant(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Reads the next button ids found by the model, keyed by tenant
+ */
+function getNavigationCache(): Promise<Record<string, string>> {
+  return getJsonData<Record<string, string>>(NAVIGATION_CACHE_KEY, {});
+}
+
+/**
+ * Finds a button by its automation id
+ */
+function findByAutomationId(automationId: string): HTMLButtonElement | null {
+  return document.querySelector<HTMLButtonElement>(
+    `button[data-automation-id="${CSS.escape(automationId)}"]`
+  );
+}
+
+/**
+ * Checks whether the copilot may navigate with a button it did not recognize
+ * as a next button
+ */
+function isNavigable(button: HTMLElement): boolean {
+  return (
+    !isForbiddenButton(button) && classifyButton(button) !== ButtonKind.Back
+  );
+}
+
+/**
+ * Wraps a found button with the strategy that found it
+ */
+function resolved(
+  button: HTMLButtonElement,
+  strategy: NavigationStrategy
+): ResolvedNextButton {
+  return {
+    button,
+    automationId: button.getAttribute("data-automation-id") || "",
+    strategy,
+  };
+}
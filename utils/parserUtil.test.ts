@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractJson,
+  findJsonObjects,
+  JsonExtractionError,
+  repairJson,
+  separateReasoning,
+} from "./parserUtil";
+
+const idSchema = {
+  type: "object",
+  properties: { id: { type: "string" } },
+  required: ["id"],
+};
+
+describe("separateReasoning", () => {
+  it.each([
+    ["no reasoning", '{"id":"a"}', "", '{"id":"a"}'],
+    ["a think block", '<think>plan</think>{"id":"a"}', "plan", '{"id":"a"}'],
+    ["an injected opening tag", "plan</think>\nanswer", "plan", "answer"],
+    ["reasoning cut off", "answer<think>cut off", "cut off", "answer"],
+    ["a reasoning block", "<reasoning>why</reasoning>x", "why", "x"],
+    [
+      "several blocks",
+      "<think>a</think>mid<thinking>b</thinking>end",
+      "a\n\nb",
+      "midend",
+    ],
+  ])("separates %s", (_, response, reasoning, answer) => {
+    expect(separateReasoning(response)).toEqual({ reasoning, answer });
+  });
+});
+
+describe("findJsonObjects", () => {
+  it.each([
+    ["nothing", "no json here", []],
+    ["an object in prose", 'Sure: {"id":"a"}!', ['{"id":"a"}']],
+    [
+      "a nested object after its parent",
+      '{"a":{"b":1}}',
+      ['{"a":{"b":1}}', '{"b":1}'],
+    ],
+    ["a closer inside a string", '{"text":"a}b"}', ['{"text":"a}b"}']],
+    ["a truncated object, closed", '{"ids":["a", "b', ['{"ids":["a", "b"]}']],
+  ])("finds %s", (_, text, candidates) => {
+    expect(findJsonObjects(text)).toEqual(candidates);
+  });
+});
+
+describe("repairJson", () => {
+  it.each([
+    ["trailing commas", '{"ids": ["a", "b",], }', { ids: ["a", "b"] }],
+    ["single quotes", "{'id': 'it\\'s'}", { id: "it's" }],
+    ["unquoted keys", '{id: "a"}', { id: "a" }],
+    ["smart quotes", "{“id”: “a”}", { id: "a" }],
+    [
+      "Python literals",
+      '{"ok": True, "no": False, "x": None}',
+      { ok: true, no: false, x: null },
+    ],
+    ["comments", '{"id": "a" // picked\n /* note */}', { id: "a" }],
+    ["raw newlines in strings", '{"text": "one\ntwo"}', { text: "one\ntwo" }],
+  ])("repairs %s", (_, json, expected) => {
+    expect(JSON.parse(repairJson(json))).toEqual(expected);
+  });
+});
+
+describe("extractJson", () => {
+  it.each([
+    ["a plain object", '{"id":"a"}'],
+    ["a fenced block", '```json\n{"id": "a"}\n```'],
+    ["an object in prose", 'The answer is {"id": "a"}, hope it helps.'],
+    ["an object needing repair", "{id: 'a',}"],
+    ["a truncated object", '{"id": "a", "reason": "cut'],
+  ])("extracts %s", (_, response) => {
+    expect(extractJson(response)).toMatchObject({ id: "a" });
+  });
+
+  it.each([
+    ["a nested object", '{"answer": {"id": "a"}}'],
+    ["a later object", '{"draft": 1} Final: {"id": "a"}'],
+  ])("returns %s that matches the schema", (_, response) => {
+    expect(extractJson(response, idSchema)).toEqual({ id: "a" });
+  });
+
+  it.each([
+    ["NO_JSON", "I cannot answer that.", undefined],
+    ["INVALID_JSON", '{"id": }', undefined],
+    ["SCHEMA_MISMATCH", '{"id": 3}', idSchema],
+  ])("reports %s", (code, response, schema) => {
+    const extract = () => extractJson(response, schema);
+
+    expect(extract).toThrow(JsonExtractionError);
+    expect(extract).toThrow(expect.objectContaining({ code }));
+  });
+});
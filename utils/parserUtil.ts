@@ -8,7 +8,7 @@ export function parseJsonResponse(input: string) {
     }
 
     // Parse the extracted JSON
-    const jsonData = JSON.parse(jsonMatch[1]);
+    const jsonData = extractJson(jsonMatch[1]);
 
     return jsonData;
   } catch (error: any) {
@@ -18,5 +18,353 @@ export function parseJsonResponse(input: string) {
 }
 
 export function modalBasedJsonParser(aiResponse: string) {
-  return JSON.parse(aiResponse);
+  return extractJson(aiResponse);
+}
+
+/** Tags reasoning models wrap their chain of thought in */
+const REASONING_TAGS = ["think", "thinking", "reasoning"];
+
+/**
+ * A model response split into its reasoning and its final answer
+ * @interface SeparatedResponse
+ */
+export interface SeparatedResponse {
+  /** The chain of thought, empty for non reasoning models */
+  reasoning: string;
+  /** The response with every reasoning block removed */
+  answer: string;
+}
+
+/**
+ * Separates `<think>...</think>` style reasoning from the final answer. Also
+ * handles templates that inject the opening tag (only `</think>` is emitted)
+ * and reasoning that was cut off before its closing tag.
+ * @param response - The raw model response
+ * @returns The reasoning and the answer
+ */
+export function separateReasoning(response: string): SeparatedResponse {
+  const reasoning: string[] = [];
+  let answer = response;
+
+  for (const tag of REASONING_TAGS) {
+    answer = answer.replace(
+      new RegExp(`<${tag}>([\\s\\S]*?)<\\/${tag}>`, "gi"),
+      (_, content: string) => {
+        reasoning.push(content.trim());
+        return "";
+      }
+    );
+
+    const closingTag = answer.match(new RegExp(`<\\/${tag}>`, "i"));
+    if (closingTag?.index !== undefined) {
+      reasoning.push(answer.slice(0, closingTag.index).trim());
+      answer = answer.slice(closingTag.index + closingTag[0].length);
+    }
+
+    const openingTag = answer.match(new RegExp(`<${tag}>`, "i"));
+    if (openingTag?.index !== undefined) {
+      reasoning.push(
+        answer.slice(openingTag.index + openingTag[0].length).trim()
+      );
+      answer = answer.slice(0, openingTag.index);
+    }
+  }
+
+  return {
+    reasoning: reasoning.filter(Boolean).join("\n\n"),
+    answer: answer.trim(),
+  };
+}
+
+/**
+ * Post-processes a raw model response before it is parsed: strips reasoning
+ * blocks and hands the reasoning to the caller so it can be surfaced.
+ * @param response - The raw model response
+ * @param onReasoning - Called with the reasoning when the model produced any
+ * @returns The final answer
+ */
+export function processModelResponse(
+  response: string,
+  onReasoning?: (reasoning: string) => void
+): string {
+  const { reasoning, answer } = separateReasoning(response);
+  if (reasoning && onReasoning) {
+    onReasoning(reasoning);
+  }
+  return answer;
+}
+
+/**
+ * Reasons a JSON answer could not be extracted from a response
+ */
+export type JsonExtractionErrorCode =
+  "NO_JSON" | "INVALID_JSON" | "SCHEMA_MISMATCH";
+
+/**
+ * Custom error class for JSON extraction errors. The message is written so it
+ * can be sent back to the model when re-prompting.
+ */
+export class JsonExtractionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: JsonExtractionErrorCode,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "JsonExtractionError";
+  }
+}
+
+/**
+ * Finds every balanced JSON object candidate in a text, in order. Objects cut
+ * off at the end of the text are closed so truncated answers can be repaired.
+ * @param text - The text to search
+ * @returns The candidate object strings
+ */
+export function findJsonObjects(text: string): string[] {
+  const candidates: string[] = [];
+  let start = text.indexOf("{");
+
+  while (start !== -1) {
+    const closers: string[] = [];
+    let quote: string | null = null;
+    let end = -1;
+
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (quote) {
+        if (char === "\\") {
+          i++;
+        } else if (char === quote) {
+          quote = null;
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === "{" || char === "[") {
+        closers.push(char === "{" ? "}" : "]");
+      } else if (char === "}" || char === "]") {
+        closers.pop();
+        if (!closers.length) {
+          end = i;
+          break;
+        }
+      }
+    }
+
+    if (end === -1) {
+      // Truncated answer: close the open string and brackets
+      candidates.push(
+        text.slice(start) + (quote || "") + closers.reverse().join("")
+      );
+      break;
+    }
+
+    candidates.push(text.slice(start, end + 1));
+    start = text.indexOf("{", start + 1);
+  }
+
+  return candidates;
+}
+
+/** Matches what follows a trailing comma: whitespace, comments, a closer */
+const TRAILING_COMMA = /^(\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*[}\]]/;
+
+/**
+ * Repairs common defects of model generated JSON: smart quotes, single quoted
+ * strings, unquoted keys, comments, raw newlines in strings, trailing commas
+ * and Python style literals.
+ * @param json - The almost-JSON text
+ * @returns The repaired JSON text
+ */
+export function repairJson(json: string): string {
+  const text = json.replace(/[“”]/g, '"').replace(/[‘’]/g, "'");
+  const literals: Record<string, string> = {
+    True: "true",
+    False: "false",
+    None: "null",
+    undefined: "null",
+  };
+  let result = "";
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '"' || char === "'") {
+      let content = "";
+      let j = i + 1;
+      while (j < text.length && text[j] !== char) {
+        if (text[j] === "\\") {
+          content += text[j] + (text[j + 1] ?? "");
+          j += 2;
+          continue;
+        }
+        content += text[j];
+        j++;
+      }
+      if (char === "'") {
+        content = content.replace(/\\'/g, "'").replace(/(^|[^\\])"/g, '$1\\"');
+      }
+      content = content
+        .replace(/\n/g, "\\n")
+        .replace(/\r/g, "\\r")
+        .replace(/\t/g, "\\t");
+      result += `"${content}"`;
+      i = j + 1;
+    } else if (char === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") i++;
+    } else if (char === "/" && text[i + 1] === "*") {
+      const commentEnd = text.indexOf("*/", i + 2);
+      i = commentEnd === -1 ? text.length : commentEnd + 2;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const word = text.slice(i).match(/^[A-Za-z0-9_$]+/)![0];
+      const isKey = /^\s*:/.test(text.slice(i + word.length));
+      result += isKey ? `"${word}"` : (literals[word] ?? word);
+      i += word.length;
+    } else if (char === "," && TRAILING_COMMA.test(text.slice(i + 1))) {
+      i++;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Returns the JSON type name of a value
+ */
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+/**
+ * Validates a value against the subset of JSON schema used by the handlers.
+ * @param value - The value to validate
+ * @param schema - The JSON schema
+ * @param path - The path of the value, used in the messages
+ * @returns The validation errors, empty when the value is valid
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: Record<string, any>,
+  path: string = "$"
+): string[] {
+  const errors: string[] = [];
+  const actualType = jsonTypeOf(value);
+
+  if (schema.type) {
+    const allowedTypes: string[] = Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type];
+    const matches = allowedTypes.some(
+      (type) =>
+        type === actualType || (type === "number" && actualType === "integer")
+    );
+    if (!matches) {
+      return [`${path} must be of type ${allowedTypes.join(" or ")}`];
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    errors.push(
+      `${path} must be one of ${JSON.stringify(schema.enum)}, got ${JSON.stringify(
+        value
+      )}`
+    );
+  }
+
+  if (actualType === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in record)) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+    for (const [key, propertySchema] of Object.entries<Record<string, any>>(
+      schema.properties || {}
+    )) {
+      if (key in record) {
+        errors.push(
+          ...validateJsonSchema(record[key], propertySchema, `${path}.${key}`)
+        );
+      }
+    }
+  }
+
+  if (actualType === "array") {
+    const items = value as unknown[];
+    if (schema.minItems !== undefined && items.length < schema.minItems) {
+      errors.push(`${path} must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+      errors.push(`${path} must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      items.forEach((item, index) =>
+        errors.push(
+          ...validateJsonSchema(item, schema.items, `${path}[${index}]`)
+        )
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Extracts the first JSON object from a model response that parses (after
+ * repair) and, when a schema is given, conforms to it.
+ * @param response - The model response, with any reasoning already removed
+ * @param schema - The JSON schema the object has to conform to
+ * @returns The extracted object
+ * @throws {JsonExtractionError} When no usable object is found
+ */
+export function extractJson<T>(
+  response: string,
+  schema?: Record<string, any>
+): T {
+  const candidates = findJsonObjects(response);
+  if (!candidates.length) {
+    throw new JsonExtractionError(
+      "The response did not contain a JSON object.",
+      "NO_JSON"
+    );
+  }
+
+  let firstError: JsonExtractionError | null = null;
+
+  for (const candidate of candidates) {
+    let value: unknown;
+    try {
+      value = JSON.parse(candidate);
+    } catch {
+      try {
+        value = JSON.parse(repairJson(candidate));
+      } catch (error: any) {
+        firstError ??= new JsonExtractionError(
+          `The JSON object could not be parsed: ${error.message}`,
+          "INVALID_JSON",
+          candidate
+        );
+        continue;
+      }
+    }
+
+    const errors = schema ? validateJsonSchema(value, schema) : [];
+    if (!errors.length) {
+      return value as T;
+    }
+    firstError ??= new JsonExtractionError(
+      `The JSON object does not match the expected shape: ${errors.join("; ")}`,
+      "SCHEMA_MISMATCH",
+      value
+    );
+  }
+
+  throw firstError!;
 }
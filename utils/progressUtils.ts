@@ -25,6 +25,16 @@ export function getProgressBarStep(): string {
   );
 }
 
+/**
+ * Extracts the name of a step from its progress bar text.
+ * @param progressBarText - The text of the step (e.g. "current step 3 of 6
+ * Application Questions")
+ * @returns The step name (e.g. "Application Questions"), or the text as is
+ */
+export function getStepName(progressBarText: string): string {
+  return progressBarText.replace(/^.*?\d+\s*of\s*\d+\s*/i, "").trim();
+}
+
 /**
  * Calculates the overall progress percentage.
  * @param pagePercentage - The percentage of inputs completed on the current step.
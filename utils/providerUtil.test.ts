@@ -0,0 +1,327 @@
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  createLlamaCppProvider,
+  createOllamaProvider,
+  createOpenAICompatibleProvider,
+  ProviderConfig,
+} from "./providerUtil";
+import { StructuredSchema } from "./schemaUtil";
+
+/**
+ * The JSON body of a request, with the fields the adapters send
+ * @interface StubRequestBody
+ */
+interface StubRequestBody {
+  model?: string;
+  messages?: { role: string; content: string }[];
+  response_format?: unknown;
+  format?: unknown;
+  options?: Record<string, number>;
+  prompt?: string;
+  grammar?: string;
+  cache_prompt?: boolean;
+  n_predict?: number;
+  stream?: boolean;
+}
+
+/**
+ * A request received by the stub server
+ * @interface StubRequest
+ */
+interface StubRequest {
+  method: string;
+  path: string;
+  /** The parsed body, empty for requests without one */
+  body: StubRequestBody;
+}
+
+/**
+ * The reply of the stub server to a request
+ * @interface StubReply
+ */
+interface StubReply {
+  status?: number;
+  body: unknown;
+}
+
+/**
+ * A local server standing in for an LLM server
+ * @interface StubServer
+ */
+interface StubServer {
+  baseUrl: string;
+  /** Every request received so far */
+  requests: StubRequest[];
+  close: () => Promise<void>;
+}
+
+const schema: StructuredSchema = {
+  name: "answer",
+  schema: {
+    type: "object",
+    properties: { value: { type: "string" } },
+    required: ["value"],
+    additionalProperties: false,
+  },
+};
+
+let server: StubServer | null = null;
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+});
+
+/**
+ * Starts a stub server on a free local port, answering each request with the
+ * reply of the handler
+ */
+async function startStubServer(
+  handler: (request: StubRequest) => StubReply
+): Promise<StubServer> {
+  const requests: StubRequest[] = [];
+  const httpServer: Server = createServer((req, res) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      const request = {
+        method: req.method || "",
+        path: req.url || "",
+        body: data ? (JSON.parse(data) as StubRequestBody) : {},
+      };
+      requests.push(request);
+      const { status = 200, body } = handler(request);
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    });
+  });
+  await new Promise<void>((resolve) =>
+    httpServer.listen(0, "127.0.0.1", resolve)
+  );
+  const { port } = httpServer.address() as AddressInfo;
+
+  server = {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise((resolve) => httpServer.close(() => resolve())),
+  };
+  return server;
+}
+
+/**
+ * Builds the settings of an adapter talking to the stub server
+ */
+function configFor(baseUrl: string): ProviderConfig {
+  return {
+    baseUrl,
+    apiKey: "",
+    model: "stub-model",
+    temperature: 0.2,
+    maxTokens: 100,
+  };
+}
+
+describe("OpenAI compatible provider", () => {
+  const completion = (content: string) => ({
+    id: "chatcmpl-1",
+    object: "chat.completion",
+    created: 0,
+    model: "stub-model",
+    choices: [
+      {
+        index: 0,
+        finish_reason: "stop",
+        message: { role: "assistant", content },
+      },
+    ],
+    usage: {
+      prompt_tokens: 12,
+      completion_tokens: 3,
+      total_tokens: 15,
+      prompt_tokens_details: { cached_tokens: 8 },
+    },
+    stats: { time_to_first_token: 0.25, generation_time: 0.5 },
+  });
+
+  it("requests a json_schema response and reads LM Studio's stats", async () => {
+    const stub = await startStubServer(() => ({
+      body: completion('{"value":"yes"}'),
+    }));
+    const provider = createOpenAICompatibleProvider(
+      configFor(`${stub.baseUrl}/v1`)
+    );
+
+    const result = await provider.generate({
+      prefix: "shared",
+      prompt: "question",
+      schema,
+    });
+
+    expect(stub.requests[0].path).toBe("/v1/chat/completions");
+    expect(stub.requests[0].body.response_format).toEqual({
+      type: "json_schema",
+      json_schema: { name: "answer", strict: true, schema: schema.schema },
+    });
+    expect(stub.requests[0].body.messages?.[0].content).toBe(
+      "shared\n\nquestion"
+    );
+    expect(result.content).toBe('{"value":"yes"}');
+    expect(result.timings).toMatchObject({
+      promptEvalMs: 250,
+      generationMs: 500,
+      promptTokens: 12,
+      cachedTokens: 8,
+    });
+  });
+
+  it("falls back to prompt instructions when json_schema is rejected", async () => {
+    const stub = await startStubServer(({ body }) =>
+      body.response_format
+        ? { status: 400, body: { error: { message: "unsupported" } } }
+        : { body: completion('{"value":"no"}') }
+    );
+    const provider = createOpenAICompatibleProvider(
+      configFor(`${stub.baseUrl}/v1`)
+    );
+
+    const result = await provider.generate({ prompt: "question", schema });
+
+    expect(stub.requests).toHaveLength(2);
+    expect(stub.requests[1].body.response_format).toBeUndefined();
+    expect(stub.requests[1].body.messages?.[0].content).toContain(
+      JSON.stringify(schema.schema)
+    );
+    expect(result.content).toBe('{"value":"no"}');
+  });
+
+  it("lists the served models", async () => {
+    const stub = await startStubServer(() => ({
+      body: { object: "list", data: [{ id: "a", object: "model" }] },
+    }));
+    const provider = createOpenAICompatibleProvider(
+      configFor(`${stub.baseUrl}/v1`)
+    );
+
+    expect(await provider.listModels()).toEqual(["a"]);
+    expect(stub.requests[0].path).toBe("/v1/models");
+  });
+});
+
+describe("Ollama provider", () => {
+  it("passes the schema as format to /api/chat", async () => {
+    const stub = await startStubServer(() => ({
+      body: {
+        message: { role: "assistant", content: '{"value":"yes"}' },
+        prompt_eval_count: 20,
+        prompt_eval_duration: 3_000_000,
+        eval_duration: 7_000_000,
+      },
+    }));
+    const provider = createOllamaProvider(configFor(stub.baseUrl));
+
+    const result = await provider.generate({ prompt: "question", schema });
+
+    expect(stub.requests[0].path).toBe("/api/chat");
+    expect(stub.requests[0].body).toMatchObject({
+      model: "stub-model",
+      stream: false,
+      format: schema.schema,
+      options: { temperature: 0.2, num_predict: 100 },
+    });
+    expect(result.content).toBe('{"value":"yes"}');
+    expect(result.timings).toMatchObject({
+      promptEvalMs: 3,
+      generationMs: 7,
+      promptTokens: 20,
+      cachedTokens: null,
+    });
+  });
+
+  it("lists the installed models of /api/tags", async () => {
+    const stub = await startStubServer(() => ({
+      body: { models: [{ name: "hermes3:3b" }, { name: "gemma2:2b" }] },
+    }));
+    const provider = createOllamaProvider(configFor(stub.baseUrl));
+
+    expect(await provider.listModels()).toEqual(["hermes3:3b", "gemma2:2b"]);
+    expect(stub.requests[0].path).toBe("/api/tags");
+  });
+
+  it("reports a failing server as an LLMProviderError", async () => {
+    const stub = await startStubServer(() => ({
+      status: 500,
+      body: { error: "boom" },
+    }));
+    const provider = createOllamaProvider(configFor(stub.baseUrl));
+
+    await expect(provider.generate({ prompt: "question" })).rejects.toThrow(
+      /responded with 500/
+    );
+  });
+});
+
+describe("llama.cpp provider", () => {
+  it("constrains /completion with the schema's grammar and caches the prompt", async () => {
+    const stub = await startStubServer(() => ({
+      body: {
+        content: '{"value":"yes"}',
+        tokens_cached: 30,
+        timings: { prompt_n: 40, prompt_ms: 12.4, predicted_ms: 55.6 },
+      },
+    }));
+    const provider = createLlamaCppProvider(configFor(stub.baseUrl));
+
+    const result = await provider.generate({
+      prefix: "shared",
+      prompt: "question",
+      schema: {
+        name: "answer",
+        schema: {
+          type: "object",
+          properties: {
+            reason: { type: "string" },
+            ids: {
+              type: "array",
+              maxItems: 2,
+              items: { type: "string", enum: ["a", "b"] },
+            },
+          },
+          required: ["reason", "ids"],
+          additionalProperties: false,
+        },
+      },
+    });
+
+    expect(stub.requests[0].path).toBe("/completion");
+    expect(stub.requests[0].body).toMatchObject({
+      cache_prompt: true,
+      n_predict: 100,
+      stream: false,
+    });
+    expect(stub.requests[0].body.prompt?.startsWith("shared\n\n")).toBe(true);
+    // Both required properties in order, the ids limited to two enum values
+    expect(stub.requests[0].body.grammar?.split("\n").slice(0, 3)).toEqual([
+      'root-ids-item ::= ( "\\"a\\"" | "\\"b\\"" ) ws',
+      'root-ids ::= "[" ws ( root-ids-item ( "," ws root-ids-item )? )? "]" ws',
+      'root ::= "{" ws "\\"reason\\"" ws ":" ws string "," ws "\\"ids\\"" ws ":" ws root-ids "}" ws',
+    ]);
+    expect(result.timings).toMatchObject({
+      promptEvalMs: 12,
+      generationMs: 56,
+      promptTokens: 40,
+      cachedTokens: 30,
+    });
+  });
+
+  it("lists the models of /v1/models", async () => {
+    const stub = await startStubServer(() => ({
+      body: { data: [{ id: "llama" }] },
+    }));
+    const provider = createLlamaCppProvider(configFor(stub.baseUrl));
+
+    expect(await provider.listModels()).toEqual(["llama"]);
+    expect(stub.requests[0].path).toBe("/v1/models");
+  });
+});
@@ -0,0 +1,474 @@
+import OpenAI from "openai";
+import { schemaToGbnf } from "./grammarUtil";
+import { StructuredSchema } from "./schemaUtil";
+
+/**
+ * The local LLM servers the copilot can talk to
+ * @enum {string}
+ */
+export enum LLMProvider {
+  /** LM Studio, vLLM or any server exposing the OpenAI `/v1` API */
+  OpenAICompatible = "openai",
+  /** Ollama's native `/api/chat` endpoint */
+  Ollama = "ollama",
+  /** llama.cpp `server` native `/completion` endpoint */
+  LlamaCpp = "llamacpp",
+}
+
+/** Default base URL of each provider when running locally */
+export const defaultBaseUrls: Record<LLMProvider, string> = {
+  [LLMProvider.OpenAICompatible]: "http://127.0.0.1:1234/v1",
+  [LLMProvider.Ollama]: "http://127.0.0.1:11434",
+  [LLMProvider.LlamaCpp]: "http://127.0.0.1:8080",
+};
+
+/** Human readable provider names for the settings menu */
+export const providerLabels: Record<LLMProvider, string> = {
+  [LLMProvider.OpenAICompatible]: "OpenAI compatible (LM Studio)",
+  [LLMProvider.Ollama]: "Ollama",
+  [LLMProvider.LlamaCpp]: "llama.cpp server",
+};
+
+/**
+ * What the models listed by each provider are. Ollama lists the models it has
+ * installed and loads them on the first request, the others the loaded ones.
+ */
+export const modelListLabels: Record<LLMProvider, string> = {
+  [LLMProvider.OpenAICompatible]: "loaded",
+  [LLMProvider.Ollama]: "installed",
+  [LLMProvider.LlamaCpp]: "loaded",
+};
+
+/**
+ * Settings a provider adapter is created with
+ * @interface ProviderConfig
+ */
+export interface ProviderConfig {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+/**
+ * A single generation request
+ * @interface GenerateRequest
+ */
+export interface GenerateRequest {
+  /**
+   * Stable instructions and resume data that are identical across requests,
+   * sent first so local servers can reuse their cached prompt evaluation
+   */
+  prefix?: string;
+  /** The request specific prompt, sent after the prefix */
+  prompt: string;
+  /** When set, the response is constrained to this schema where supported */
+  schema?: StructuredSchema;
+  /** Aborts the request when the user stops the run */
+  signal?: AbortSignal;
+}
+
+/**
+ * Timing breakdown of a generation, null where the server does not report it
+ * @interface GenerationTimings
+ */
+export interface GenerationTimings {
+  /** Time spent evaluating the prompt in milliseconds */
+  promptEvalMs: number | null;
+  /** Time spent generating the response in milliseconds */
+  generationMs: number | null;
+  /** Wall clock time of the request in milliseconds */
+  totalMs: number;
+  /** Number of prompt tokens */
+  promptTokens: number | null;
+  /** Number of prompt tokens served from the server's cache */
+  cachedTokens: number | null;
+}
+
+/**
+ * The content of a generation together with its timings
+ * @interface GenerateResult
+ */
+export interface GenerateResult {
+  content: string;
+  timings: GenerationTimings;
+}
+
+/**
+ * Common interface implemented by every provider adapter
+ * @interface LLMProviderAdapter
+ */
+export interface LLMProviderAdapter {
+  /**
+   * Generates the raw text content for a request
+   * @throws {LLMProviderError} When the server cannot be reached or fails
+   */
+  generate(request: GenerateRequest): Promise<GenerateResult>;
+  /**
+   * Lists the ids of the models the server can answer with, see
+   * `modelListLabels`
+   * @throws {LLMProviderError} When the server cannot be reached or fails
+   */
+  listModels(): Promise<string[]>;
+}
+
+/**
+ * Custom error class for provider related errors
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "LLMProviderError";
+  }
+}
+
+/**
+ * Appends the schema to the prompt for servers without structured output
+ */
+function withSchemaInstructions(
+  prompt: string,
+  schema: StructuredSchema
+): string {
+  return `${prompt}\n\nRespond only with a JSON object that conforms to this JSON schema:\n${JSON.stringify(
+    schema.schema
+  )}`;
+}
+
+/**
+ * Joins the stable prefix and the request prompt. The prefix always comes
+ * first so consecutive requests share the longest possible token prefix.
+ */
+function joinPrompt({ prefix, prompt, schema }: GenerateRequest): string {
+  const body = schema ? withSchemaInstructions(prompt, schema) : prompt;
+  return prefix ? `${prefix}\n\n${body}` : body;
+}
+
+/**
+ * Converts a duration reported by a server into rounded milliseconds
+ */
+function toMs(value: number | undefined, unitInMs: number): number | null {
+  return typeof value === "number" ? Math.round(value * unitInMs) : null;
+}
+
+/**
+ * Removes trailing slashes so paths can be appended safely
+ */
+function trimBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, "");
+}
+
+/**
+ * Sends a request and returns the parsed JSON response
+ * @throws {LLMProviderError} When the request fails or returns a non 2xx status
+ */
+async function requestJson<T>(
+  url: string,
+  init: RequestInit,
+  apiKey?: string
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+    });
+  } catch (error) {
+    throw new LLMProviderError(
+      `Could not reach ${url}: ${error}`,
+      "CONNECTION_FAILED"
+    );
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    throw new LLMProviderError(
+      `${url} responded with ${response.status}: ${errorText}`,
+      "REQUEST_FAILED",
+      response.status
+    );
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * POSTs a JSON body and returns the parsed JSON response
+ * @throws {LLMProviderError} When the request fails or returns a non 2xx status
+ */
+function postJson<T>(
+  url: string,
+  body: unknown,
+  apiKey?: string,
+  signal?: AbortSignal
+): Promise<T> {
+  return requestJson<T>(
+    url,
+    { method: "POST", body: JSON.stringify(body), signal },
+    apiKey
+  );
+}
+
+/**
+ * GETs a URL and returns the parsed JSON response
+ * @throws {LLMProviderError} When the request fails or returns a non 2xx status
+ */
+function getJson<T>(url: string, apiKey?: string): Promise<T> {
+  return requestJson<T>(url, { method: "GET" }, apiKey);
+}
+
+/**
+ * Timings LM Studio adds to chat completions in a non standard field
+ * @interface LMStudioStats
+ */
+interface LMStudioStats {
+  /** Seconds until the first token, which covers the prompt evaluation */
+  time_to_first_token?: number;
+  /** Seconds spent generating the response */
+  generation_time?: number;
+}
+
+/**
+ * Reads LM Studio's `stats` extension of a chat completion, empty for other
+ * servers
+ */
+function getLMStudioStats(response: object): LMStudioStats {
+  const { stats } = response as { stats?: LMStudioStats };
+  return stats && typeof stats === "object" ? stats : {};
+}
+
+// Remembers servers that rejected `response_format: json_schema`
+const serversWithoutJsonSchema = new Set<string>();
+
+/**
+ * Checks whether a request failed because the server does not understand
+ * `response_format: json_schema` (as opposed to being unreachable).
+ */
+function isUnsupportedResponseFormat(error: unknown): boolean {
+  return (
+    error instanceof OpenAI.APIError &&
+    error.status !== undefined &&
+    [400, 404, 422, 501].includes(error.status)
+  );
+}
+
+/**
+ * Creates an adapter for servers exposing the OpenAI chat completions API.
+ * Structured requests use `response_format: json_schema` and fall back to
+ * prompt-only instructions when the server does not support it.
+ */
+export function createOpenAICompatibleProvider(
+  config: ProviderConfig
+): LLMProviderAdapter {
+  const openai = new OpenAI({
+    baseURL: config.baseUrl,
+    apiKey: config.apiKey || "lm-studio",
+    dangerouslyAllowBrowser: true,
+  });
+
+  const complete = async (
+    request: GenerateRequest,
+    responseFormat?: OpenAI.ResponseFormatJSONSchema
+  ): Promise<GenerateResult> => {
+    const start = performance.now();
+    const response = await openai.chat.completions.create(
+      {
+        model: config.model,
+        temperature: config.temperature,
+        max_tokens: config.maxTokens,
+        messages: [{ role: "user", content: joinPrompt(request) }],
+        ...(responseFormat ? { response_format: responseFormat } : {}),
+      },
+      { signal: request.signal }
+    );
+    const stats = getLMStudioStats(response);
+
+    return {
+      content: response.choices[0].message.content || "",
+      timings: {
+        promptEvalMs: toMs(stats.time_to_first_token, 1000),
+        generationMs: toMs(stats.generation_time, 1000),
+        totalMs: Math.round(performance.now() - start),
+        promptTokens: response.usage?.prompt_tokens ?? null,
+        cachedTokens:
+          response.usage?.prompt_tokens_details?.cached_tokens ?? null,
+      },
+    };
+  };
+
+  return {
+    async generate(request) {
+      const { schema } = request;
+      if (!schema) {
+        return complete(request);
+      }
+
+      if (!serversWithoutJsonSchema.has(config.baseUrl)) {
+        try {
+          return await complete(
+            { ...request, schema: undefined },
+            {
+              type: "json_schema",
+              json_schema: {
+                name: schema.name,
+                strict: true,
+                schema: schema.schema,
+              },
+            }
+          );
+        } catch (error) {
+          if (!isUnsupportedResponseFormat(error)) {
+            throw error;
+          }
+          serversWithoutJsonSchema.add(config.baseUrl);
+        }
+      }
+
+      return complete(request);
+    },
+
+    async listModels() {
+      const models = await openai.models.list();
+      return models.data.map((model) => model.id);
+    },
+  };
+}
+
+/**
+ * Creates an adapter for Ollama's native `/api/chat` endpoint. Structured
+ * requests pass the JSON schema through Ollama's `format` parameter.
+ */
+export function createOllamaProvider(
+  config: ProviderConfig
+): LLMProviderAdapter {
+  return {
+    async generate(request) {
+      const start = performance.now();
+      const response = await postJson<{
+        message?: { content?: string };
+        prompt_eval_count?: number;
+        prompt_eval_duration?: number;
+        eval_duration?: number;
+      }>(
+        `${trimBaseUrl(config.baseUrl)}/api/chat`,
+        {
+          model: config.model,
+          stream: false,
+          messages: [{ role: "user", content: joinPrompt(request) }],
+          ...(request.schema ? { format: request.schema.schema } : {}),
+          options: {
+            temperature: config.temperature,
+            num_predict: config.maxTokens,
+          },
+        },
+        config.apiKey,
+        request.signal
+      );
+
+      // Ollama reports durations in nanoseconds
+      return {
+        content: response.message?.content || "",
+        timings: {
+          promptEvalMs: toMs(response.prompt_eval_duration, 1e-6),
+          generationMs: toMs(response.eval_duration, 1e-6),
+          totalMs: Math.round(performance.now() - start),
+          promptTokens: response.prompt_eval_count ?? null,
+          cachedTokens: null,
+        },
+      };
+    },
+
+    async listModels() {
+      const response = await getJson<{ models?: { name: string }[] }>(
+        `${trimBaseUrl(config.baseUrl)}/api/tags`,
+        config.apiKey
+      );
+      return (response.models || []).map((model) => model.name);
+    },
+  };
+}
+
+/**
+ * Creates an adapter for the llama.cpp server's native `/completion`
+ * endpoint. Structured requests are constrained with a GBNF grammar built
+ * from the schema, and `cache_prompt` keeps the shared prefix evaluated.
+ */
+export function createLlamaCppProvider(
+  config: ProviderConfig
+): LLMProviderAdapter {
+  return {
+    async generate(request) {
+      const start = performance.now();
+      const response = await postJson<{
+        content?: string;
+        tokens_cached?: number;
+        timings?: {
+          prompt_n?: number;
+          prompt_ms?: number;
+          predicted_ms?: number;
+        };
+      }>(
+        `${trimBaseUrl(config.baseUrl)}/completion`,
+        {
+          prompt: joinPrompt(request),
+          temperature: config.temperature,
+          n_predict: config.maxTokens,
+          stream: false,
+          // Reuse the KV cache of the shared prefix from the previous request
+          cache_prompt: true,
+          ...(request.schema
+            ? { grammar: schemaToGbnf(request.schema.schema) }
+            : {}),
+        },
+        config.apiKey,
+        request.signal
+      );
+
+      return {
+        content: response.content || "",
+        timings: {
+          promptEvalMs: toMs(response.timings?.prompt_ms, 1),
+          generationMs: toMs(response.timings?.predicted_ms, 1),
+          totalMs: Math.round(performance.now() - start),
+          promptTokens: response.timings?.prompt_n ?? null,
+          cachedTokens: response.tokens_cached ?? null,
+        },
+      };
+    },
+
+    async listModels() {
+      const response = await getJson<{ data?: { id: string }[] }>(
+        `${trimBaseUrl(config.baseUrl)}/v1/models`,
+        config.apiKey
+      );
+      return (response.data || []).map((model) => model.id);
+    },
+  };
+}
+
+/**
+ * Creates the adapter for the given provider
+ * @param provider - The selected provider
+ * @param config - The provider settings
+ * @returns The provider adapter
+ */
+export function createProvider(
+  provider: LLMProvider,
+  config: ProviderConfig
+): LLMProviderAdapter {
+  switch (provider) {
+    case LLMProvider.Ollama:
+      return createOllamaProvider(config);
+    case LLMProvider.LlamaCpp:
+      return createLlamaCppProvider(config);
+    default:
+      return createOpenAICompatibleProvider(config);
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { estimateTokens, selectRelevantResume } from "./retrievalUtil";
+
+const resume = `Personal_Information
+Jane Doe
+jane@example.com
+
+Experience
+Acme Corp - Software Engineer
+• Built Java services
+Globex - Data Analyst
+• Wrote SQL reports
+
+Skills
+Java, TypeScript, SQL
+
+Self_Identify
+Requires visa sponsorship: No
+`;
+
+describe("selectRelevantResume", () => {
+  it("returns the whole resume when it fits the budget", () => {
+    expect(selectRelevantResume(resume, "Java", estimateTokens(resume))).toBe(
+      resume
+    );
+  });
+
+  it("keeps the best matching chunks within the budget, in resume order", () => {
+    const selected = selectRelevantResume(
+      resume,
+      "Which Java services have you built?",
+      20
+    );
+
+    expect(selected).toBe(
+      "Experience\nAcme Corp - Software Engineer\n• Built Java services"
+    );
+  });
+
+  it("adds lower ranked chunks while the budget lasts", () => {
+    const selected = selectRelevantResume(resume, "Java", 30);
+
+    expect(selected).toBe(
+      "Experience\nAcme Corp - Software Engineer\n• Built Java services\n\nSkills\nJava, TypeScript, SQL"
+    );
+  });
+
+  it("ranks the hinted section first without shared words", () => {
+    const selected = selectRelevantResume(
+      resume,
+      "Are you legally authorized to work here?",
+      12
+    );
+
+    expect(selected).toBe("Self_Identify\nRequires visa sponsorship: No");
+  });
+
+  it("returns nothing when no chunk fits the budget", () => {
+    expect(selectRelevantResume(resume, "Java", 1)).toBe("");
+  });
+});
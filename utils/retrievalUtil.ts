@@ -0,0 +1,283 @@
+import { parseSections } from "./commonUtils";
+
+/**
+ * Local BM25 retrieval over the sections of the saved resume. Long resumes
+ * overflow the context of small models, so only the chunks relevant to the
+ * current question are sent once the resume exceeds the token budget.
+ */
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+/** BM25 length normalisation */
+const B = 0.75;
+/** Chunks longer than this many characters are split */
+const MAX_CHUNK_LENGTH = 600;
+
+/** Words too common in form labels and resumes to tell sections apart */
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "do",
+  "for",
+  "from",
+  "have",
+  "i",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "please",
+  "select",
+  "that",
+  "the",
+  "this",
+  "to",
+  "was",
+  "what",
+  "will",
+  "with",
+  "you",
+  "your",
+]);
+
+/**
+ * Label keywords that point to a section even when the section does not
+ * share any words with the label (e.g. sponsorship questions are answered
+ * from Self_Identify)
+ */
+const SECTION_HINTS: { pattern: RegExp; sections: string[] }[] = [
+  {
+    pattern:
+      /sponsor|visa|authori[sz]ed|relocat|citizen|veteran|disabilit|clearance|notice period|previously (been )?employed|worked for/i,
+    sections: ["Self_Identify"],
+  },
+  {
+    pattern: /gender|race|ethnic|hispanic|latino|pronoun|sexual orientation/i,
+    sections: ["Voluntary_Disclosures", "Self_Identify"],
+  },
+  {
+    pattern:
+      /degree|school|university|college|gpa|major|field of study|graduat/i,
+    sections: ["Education"],
+  },
+  {
+    pattern: /employer|company|job title|position|years of experience|salary/i,
+    sections: ["Experience"],
+  },
+  {
+    pattern: /skill|proficien|language|tool|technolog/i,
+    sections: ["Skills"],
+  },
+  {
+    pattern: /certif|licen[cs]e/i,
+    sections: ["Certifications"],
+  },
+  {
+    pattern:
+      /name|e-?mail|phone|address|city|state|zip|postal|country|linkedin|website|github/i,
+    sections: ["Personal_Information"],
+  },
+];
+
+/**
+ * A piece of a resume section that is scored on its own
+ * @interface ResumeChunk
+ */
+interface ResumeChunk {
+  /** The section the chunk belongs to */
+  section: string;
+  /** Position of the chunk in the resume */
+  index: number;
+  /** The text of the chunk */
+  text: string;
+  /** The normalised terms of the chunk */
+  terms: string[];
+}
+
+/**
+ * Roughly estimates the number of tokens of a text (about four characters per
+ * token for English)
+ * @param text - The text to measure
+ * @returns The estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Splits a text into lowercase terms without stop words
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9+#]+/)
+    .filter((term) => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+/**
+ * Splits the sections into chunks. A line that is not a bullet starts a new
+ * chunk so every job, degree or project is scored on its own.
+ */
+function chunkSections(sections: Record<string, string>): ResumeChunk[] {
+  const chunks: ResumeChunk[] = [];
+
+  for (const [section, content] of Object.entries(sections)) {
+    let current = "";
+    const flush = () => {
+      if (current.trim()) {
+        chunks.push({
+          section,
+          index: chunks.length,
+          text: current.trim(),
+          terms: tokenize(`${section.replace(/_/g, " ")} ${current}`),
+        });
+      }
+      current = "";
+    };
+
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+
+      const isBullet = /^\s*[•\-]/.test(line);
+      if (
+        (!isBullet && current) ||
+        current.length + line.length > MAX_CHUNK_LENGTH
+      ) {
+        flush();
+      }
+      current += `${line.trim()}\n`;
+    }
+    flush();
+  }
+
+  return chunks;
+}
+
+/**
+ * Scores every chunk against the query with BM25
+ * @returns The scores in chunk order
+ */
+function scoreChunks(chunks: ResumeChunk[], query: string): number[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const averageLength =
+    chunks.reduce((total, chunk) => total + chunk.terms.length, 0) /
+    Math.max(chunks.length, 1);
+
+  const documentFrequency = new Map<string, number>();
+  for (const chunk of chunks) {
+    for (const term of new Set(chunk.terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  return chunks.map((chunk) =>
+    queryTerms.reduce((score, term) => {
+      const frequency = chunk.terms.filter((t) => t === term).length;
+      if (!frequency) return score;
+
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+      const normalisation =
+        K1 * (1 - B + (B * chunk.terms.length) / averageLength);
+      return score + (idf * frequency * (K1 + 1)) / (frequency + normalisation);
+    }, 0)
+  );
+}
+
+/**
+ * Returns the sections the label keywords point to
+ */
+function getHintedSections(query: string): Set<string> {
+  return new Set(
+    SECTION_HINTS.filter(({ pattern }) => pattern.test(query)).flatMap(
+      ({ sections }) => sections
+    )
+  );
+}
+
+/**
+ * Selects the parts of the resume relevant to a question within a token
+ * budget. The whole resume is returned unchanged when it fits, which keeps
+ * the prompt prefix identical across requests for prompt caching.
+ * @param resumeText - The saved resume, formatted into sections
+ * @param query - The question being answered (label and options text)
+ * @param tokenBudget - The maximum number of resume tokens to send
+ * @returns The resume, or its most relevant chunks grouped by section
+ */
+export function selectRelevantResume(
+  resumeText: string,
+  query: string,
+  tokenBudget: number
+): string {
+  if (estimateTokens(resumeText) <= tokenBudget) {
+    return resumeText;
+  }
+
+  const chunks = chunkSections(parseSections(resumeText));
+  const scores = scoreChunks(chunks, query);
+  const hintedSections = getHintedSections(query);
+  const topScore = Math.max(0, ...scores);
+
+  // Hinted sections rank above every keyword match, ties keep resume order
+  const ranked = chunks
+    .map((chunk) => ({
+      chunk,
+      score:
+        scores[chunk.index] +
+        (hintedSections.has(chunk.section) ? topScore + 1 : 0),
+    }))
+    .sort((a, b) => b.score - a.score || a.chunk.index - b.chunk.index);
+
+  const selected: ResumeChunk[] = [];
+  let remaining = tokenBudget;
+  for (const { chunk } of ranked) {
+    // Section headings take a few tokens of their own
+    const cost = estimateTokens(chunk.text) + 4;
+    if (cost <= remaining) {
+      selected.push(chunk);
+      remaining -= cost;
+    }
+  }
+
+  const grouped = new Map<string, string[]>();
+  for (const chunk of selected.sort((a, b) => a.index - b.index)) {
+    grouped.set(chunk.section, [
+      ...(grouped.get(chunk.section) || []),
+      chunk.text,
+    ]);
+  }
+
+  return Array.from(grouped.entries())
+    .map(([section, texts]) => `${section}\n${texts.join("\n")}`)
+    .join("\n\n");
+}
+
+/**
+ * Narrows the resume to the sections a step is answered from (e.g. only
+ * Voluntary_Disclosures on the Voluntary Disclosures step).
+ * @param resumeText - The saved resume, formatted into sections
+ * @param sections - The sections to keep
+ * @returns The kept sections, or the whole resume when none of them has content
+ */
+export function selectProfileSections(
+  resumeText: string,
+  sections: string[]
+): string {
+  const parsedSections = parseSections(resumeText);
+  const kept = sections.filter((section) => parsedSections[section]?.trim());
+  if (!kept.length) {
+    return resumeText;
+  }
+
+  return kept
+    .map((section) => `${section}\n${parsedSections[section].trim()}`)
+    .join("\n\n");
+}
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import { compareReview, DiscrepancyKind, ReviewEntry } from "./reviewUtil";
+import { RecordedAnswer } from "./runRecordUtil";
+
+const questionsStep = "current step 3 of 6 Application Questions";
+const reviewStep = "current step 6 of 6 Review";
+const profile = `Personal_Information
+Jane Doe
+Jane.Doe@Example.com
++1 (555) 123-4567
+`;
+
+/**
+ * Builds a summary entry of the Application Questions section
+ */
+function entry(label: string, value: string): ReviewEntry {
+  return { section: "Application Questions", label, value };
+}
+
+/**
+ * Builds an answer recorded on the Application Questions step
+ */
+function answer(label: string, value: string): RecordedAnswer {
+  return { step: questionsStep, label, value };
+}
+
+describe("compareReview", () => {
+  it.each([
+    ["zero padding", "05/01/2021", "5/1/2021"],
+    ["separators", "2021-05-01", "2021/5/1"],
+    ["month and year", "05/2021", "5/2021"],
+  ])("matches dates that differ in %s", (_, shown, entered) => {
+    expect(
+      compareReview(
+        [entry("Start Date*", shown)],
+        [answer("Start Date", entered)],
+        profile,
+        reviewStep
+      )
+    ).toEqual([]);
+  });
+
+  it("reports a different date as a date mismatch", () => {
+    expect(
+      compareReview(
+        [entry("Start Date", "06/2021")],
+        [answer("Start Date", "05/2021")],
+        profile,
+        reviewStep
+      )
+    ).toEqual([
+      {
+        kind: DiscrepancyKind.DateMismatch,
+        label: "Start Date",
+        shownValue: "06/2021",
+        expectedValue: "05/2021",
+        step: questionsStep,
+      },
+    ]);
+  });
+
+  it("compares with the latest answer of a label on each step", () => {
+    const answers = [
+      answer("Notice Period", "4 weeks"),
+      answer("Notice Period", "2 weeks"),
+    ];
+
+    expect(
+      compareReview(
+        [entry("Notice Period", "2 weeks")],
+        answers,
+        profile,
+        reviewStep
+      )
+    ).toEqual([]);
+    expect(
+      compareReview(
+        [entry("Notice Period", "4 weeks")],
+        answers,
+        profile,
+        reviewStep
+      )
+    ).toMatchObject([
+      { kind: DiscrepancyKind.ValueMismatch, expectedValue: "2 weeks" },
+    ]);
+  });
+
+  it("keeps the answers of a label on different steps apart", () => {
+    const answers = [
+      {
+        step: "current step 2 of 6 My Experience",
+        label: "City",
+        value: "Oslo",
+      },
+      answer("City", "Bergen"),
+    ];
+
+    expect(
+      compareReview(
+        [entry("City", "Oslo"), entry("City", "Bergen")],
+        answers,
+        profile,
+        reviewStep
+      )
+    ).toEqual([]);
+  });
+
+  it.each([
+    ["an email in another case", "Email Address", "jane.doe@example.com"],
+    ["a phone without formatting", "Phone Number", "5551234567"],
+    ["a phone with its country code", "Phone Number", "+1 555 123 4567"],
+  ])("accepts %s from the profile", (_, label, value) => {
+    expect(
+      compareReview([entry(label, value)], [], profile, reviewStep)
+    ).toEqual([]);
+  });
+
+  it.each([
+    ["Email Address", "jane@example.org"],
+    ["Phone Number", "555 765 4321"],
+  ])("reports a %s that is not in the profile", (label, value) => {
+    expect(
+      compareReview([entry(label, value)], [], profile, reviewStep)
+    ).toEqual([
+      {
+        kind: DiscrepancyKind.ProfileMismatch,
+        label,
+        shownValue: value,
+        step: reviewStep,
+      },
+    ]);
+  });
+
+  it("reports every answer the summary leaves out", () => {
+    const answers = [
+      {
+        step: "current step 2 of 6 My Experience",
+        label: "City",
+        value: "Oslo",
+      },
+      answer("City", "Bergen"),
+      answer("Notice Period", "2 weeks"),
+    ];
+
+    expect(compareReview([], answers, profile, reviewStep)).toEqual([
+      {
+        kind: DiscrepancyKind.Missing,
+        label: "City",
+        shownValue: "",
+        expectedValue: "Oslo",
+        step: "current step 2 of 6 My Experience",
+      },
+      {
+        kind: DiscrepancyKind.Missing,
+        label: "City",
+        shownValue: "",
+        expectedValue: "Bergen",
+        step: questionsStep,
+      },
+      {
+        kind: DiscrepancyKind.Missing,
+        label: "Notice Period",
+        shownValue: "",
+        expectedValue: "2 weeks",
+        step: questionsStep,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,240 @@
+import { RecordedAnswer } from "./runRecordUtil";
+
+/**
+ * A question and answer pair of the Review step's read-only summary
+ * @interface ReviewEntry
+ */
+export interface ReviewEntry {
+  /** The heading of the summary section, which names the step */
+  section: string;
+  label: string;
+  /** The answer as shown, empty when the question is unanswered */
+  value: string;
+}
+
+/**
+ * What is wrong with an answer on the Review step
+ * @enum {string}
+ */
+export enum DiscrepancyKind {
+  /** The question has no answer, or the run's answer is not shown */
+  Missing = "missing",
+  /** A date differs from the one the run entered */
+  DateMismatch = "dateMismatch",
+  /** A choice or text differs from the one the run entered */
+  ValueMismatch = "valueMismatch",
+  /** The answer contradicts the saved profile */
+  ProfileMismatch = "profileMismatch",
+}
+
+/**
+ * A Review step answer that needs the user's attention
+ * @interface Discrepancy
+ */
+export interface Discrepancy {
+  kind: DiscrepancyKind;
+  label: string;
+  /** The answer shown on the Review step, empty when missing */
+  shownValue: string;
+  /** The answer the run entered or the profile holds */
+  expectedValue?: string;
+  /** The progress bar step to go back to for fixing the answer */
+  step: string;
+}
+
+/** Values recorded for checkboxes, which the Review step does not show as is */
+const CHECKBOX_STATES = new Set(["checked", "unchecked"]);
+
+/** Answers Workday shows for unanswered questions */
+const EMPTY_VALUES = new Set(["", "-", "--", "n/a", "not provided"]);
+
+/** Dates as entered by the date widgets or shown on the Review step */
+const DATE_VALUE = /^\d{1,4}([/.-]\d{1,4}){1,2}$/;
+
+/**
+ * Answers checked against the profile, each with the normaliser that makes
+ * differently formatted values comparable
+ */
+const PROFILE_CHECKS: { pattern: RegExp; normalise: (v: string) => string }[] =
+  [
+    {
+      pattern: /e-?mail/i,
+      normalise: (value) => value.trim().toLowerCase(),
+    },
+    {
+      // Country codes and formatting differ, the last ten digits do not
+      pattern: /phone/i,
+      normalise: (value) => value.replace(/\D/g, "").slice(-10),
+    },
+  ];
+
+/**
+ * Compares the Review step's summary with the answers the run entered and with
+ * the saved profile.
+ * @param entries - The question and answer pairs of the Review step
+ * @param answers - The answers recorded during the run
+ * @param profileText - The saved resume data
+ * @param reviewStep - The progress bar step of the Review page, used for
+ * questions the run did not answer
+ * @returns The discrepancies in the order of the Review step
+ */
+export function compareReview(
+  entries: ReviewEntry[],
+  answers: RecordedAnswer[],
+  profileText: string,
+  reviewStep: string
+): Discrepancy[] {
+  // The latest answer of a label on a step wins, earlier ones were refilled
+  const latestAnswers = new Map(
+    answers.map((answer) => [
+      `${answer.step}\n${normaliseLabel(answer.label)}`,
+      answer,
+    ])
+  );
+
+  // Labels repeated across steps are matched with the summary entries in order
+  const pendingAnswers = new Map<string, RecordedAnswer[]>();
+  for (const answer of latestAnswers.values()) {
+    if (!CHECKBOX_STATES.has(answer.value)) {
+      const labelKey = normaliseLabel(answer.label);
+      pendingAnswers.set(labelKey, [
+        ...(pendingAnswers.get(labelKey) || []),
+        answer,
+      ]);
+    }
+  }
+  const discrepancies: Discrepancy[] = [];
+
+  for (const entry of entries) {
+    const answer = pendingAnswers.get(normaliseLabel(entry.label))?.shift();
+    const step = answer?.step || findStep(entry.section, answers) || reviewStep;
+    const discrepancy = compareEntry(entry, answer, profileText);
+    if (discrepancy) {
+      discrepancies.push({ ...discrepancy, label: entry.label, step });
+    }
+  }
+
+  // Answers the run entered for questions the summary leaves out
+  for (const answer of Array.from(pendingAnswers.values()).flat()) {
+    discrepancies.push({
+      kind: DiscrepancyKind.Missing,
+      label: answer.label,
+      shownValue: "",
+      expectedValue: answer.value,
+      step: answer.step,
+    });
+  }
+
+  return discrepancies;
+}
+
+/**
+ * Compares a single summary entry with the run's answer and the profile
+ */
+function compareEntry(
+  entry: ReviewEntry,
+  answer: RecordedAnswer | undefined,
+  profileText: string
+): Omit<Discrepancy, "label" | "step"> | null {
+  const shownValue = entry.value.trim();
+
+  if (EMPTY_VALUES.has(shownValue.toLowerCase())) {
+    return {
+      kind: DiscrepancyKind.Missing,
+      shownValue: "",
+      expectedValue: answer?.value,
+    };
+  }
+
+  if (answer && !valuesMatch(shownValue, answer.value)) {
+    return {
+      kind:
+        DATE_VALUE.test(shownValue) && DATE_VALUE.test(answer.value)
+          ? DiscrepancyKind.DateMismatch
+          : DiscrepancyKind.ValueMismatch,
+      shownValue,
+      expectedValue: answer.value,
+    };
+  }
+
+  const check = PROFILE_CHECKS.find(({ pattern }) => pattern.test(entry.label));
+  if (check && !profileContains(profileText, shownValue, check.normalise)) {
+    return { kind: DiscrepancyKind.ProfileMismatch, shownValue };
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether a shown value is the one entered, ignoring case, whitespace
+ * and the zero padding of dates
+ */
+function valuesMatch(shownValue: string, enteredValue: string): boolean {
+  if (DATE_VALUE.test(shownValue) && DATE_VALUE.test(enteredValue)) {
+    return normaliseDate(shownValue) === normaliseDate(enteredValue);
+  }
+  const shown = normaliseValue(shownValue);
+  const entered = normaliseValue(enteredValue);
+  // Multi-value answers are listed in the order Workday chooses
+  return (
+    shown === entered ||
+    (entered.includes(", ") &&
+      entered.split(", ").every((value) => shown.includes(value)))
+  );
+}
+
+/**
+ * Checks whether the profile holds a value, comparing every word and line of
+ * the profile with the value once both are normalised
+ */
+function profileContains(
+  profileText: string,
+  value: string,
+  normalise: (v: string) => string
+): boolean {
+  const target = normalise(value);
+  return (
+    !target ||
+    [...profileText.split(/[\s,;|]+/), ...profileText.split("\n")].some(
+      (part) => normalise(part) === target
+    )
+  );
+}
+
+/**
+ * Finds the step of the run whose name ends with the summary section heading
+ * (e.g. "current step 3 of 6 Application Questions" for "Application
+ * Questions")
+ */
+function findStep(section: string, answers: RecordedAnswer[]): string | null {
+  const heading = normaliseLabel(section);
+  return (
+    (heading &&
+      answers.find(({ step }) => normaliseLabel(step).endsWith(heading))
+        ?.step) ||
+    null
+  );
+}
+
+/**
+ * Reduces a label to its words, dropping the required marker
+ */
+function normaliseLabel(label: string): string {
+  return label.replace(/\*/g, "").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/**
+ * Lowercases a value and collapses its whitespace
+ */
+function normaliseValue(value: string): string {
+  return value.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/**
+ * Reduces a date to its numbers without zero padding (05/2021 -> 5/2021)
+ */
+function normaliseDate(value: string): string {
+  return (value.match(/\d+/g) || [])
+    .map((part) => String(parseInt(part, 10)))
+    .join("/");
+}
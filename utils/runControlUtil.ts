@@ -0,0 +1,140 @@
+import { updateStatus } from "./commonUtils";
+
+/**
+ * The states of an autofill run
+ * @enum {string}
+ */
+export enum RunState {
+  Idle = "idle",
+  Running = "running",
+  Paused = "paused",
+  Stopped = "stopped",
+}
+
+/**
+ * Thrown at the next checkpoint once the user stopped the run
+ */
+export class RunStoppedError extends Error {
+  constructor(public readonly location: string) {
+    super(`Autofill stopped at ${location || "the start of the run"}`);
+    this.name = "RunStoppedError";
+  }
+}
+
+let controller: AbortController | null = null;
+let runState = RunState.Idle;
+let runLocation = "";
+let pausedCheckpoints: (() => void)[] = [];
+
+/**
+ * Lets every checkpoint waiting on a pause continue
+ */
+function releasePausedCheckpoints() {
+  pausedCheckpoints.forEach((release) => release());
+  pausedCheckpoints = [];
+}
+
+/**
+ * Starts a new run with a fresh abort signal.
+ */
+export function startRun(): void {
+  controller = new AbortController();
+  runState = RunState.Running;
+  runLocation = "";
+}
+
+/**
+ * Marks the run as finished, whether it completed, failed or was stopped.
+ */
+export function finishRun(): void {
+  controller = null;
+  runState = RunState.Idle;
+  releasePausedCheckpoints();
+}
+
+/**
+ * Stops the run. Pending LLM requests are aborted and the run halts at the
+ * next checkpoint.
+ */
+export function stopRun(): void {
+  if (runState === RunState.Idle) return;
+  runState = RunState.Stopped;
+  controller?.abort();
+  releasePausedCheckpoints();
+}
+
+/**
+ * Pauses the run at the next checkpoint. A request already sent to the model
+ * is allowed to finish so the current field is completed first.
+ */
+export function pauseRun(): void {
+  if (runState === RunState.Running) {
+    runState = RunState.Paused;
+  }
+}
+
+/**
+ * Resumes a paused run.
+ */
+export function resumeRun(): void {
+  if (runState === RunState.Paused) {
+    runState = RunState.Running;
+    releasePausedCheckpoints();
+  }
+}
+
+/**
+ * @returns The state of the current run
+ */
+export function getRunState(): RunState {
+  return runState;
+}
+
+/**
+ * @returns The signal pending requests are aborted with, if a run is active
+ */
+export function getRunSignal(): AbortSignal | undefined {
+  return controller?.signal;
+}
+
+/**
+ * @returns Whether the current run was stopped by the user
+ */
+export function isRunStopped(): boolean {
+  return runState === RunState.Stopped;
+}
+
+/**
+ * Records what the run is working on, reported when it is paused or stopped.
+ * @param location - The step and field being filled
+ */
+export function setRunLocation(location: string): void {
+  runLocation = location;
+}
+
+/**
+ * @returns What the run was last working on
+ */
+export function getRunLocation(): string {
+  return runLocation;
+}
+
+/**
+ * Waits while the run is paused and halts it once stopped. Called between
+ * fields and before navigating so the page is never left half way through a
+ * field.
+ * @throws {RunStoppedError} When the user stopped the run
+ */
+export async function checkpoint(): Promise<void> {
+  if (runState === RunState.Paused) {
+    updateStatus(
+      "Autofill paused",
+      `Paused before ${runLocation || "the next field"}`,
+      ""
+    );
+    await new Promise<void>((resolve) => pausedCheckpoints.push(resolve));
+  }
+  if (runState === RunState.Stopped) {
+    throw new RunStoppedError(runLocation);
+  }
+}
@@ -0,0 +1,162 @@
+import type { NavigationStrategy } from "./navigationUtil";
+import { Discrepancy } from "./reviewUtil";
+import { clearData, getData, saveData } from "./storageUtil";
+
+/**
+ * How a persisted run ended, or `Running` while it is in progress (or was
+ * interrupted by a reload)
+ * @enum {string}
+ */
+export enum RunStatus {
+  Running = "running",
+  Stopped = "stopped",
+  Failed = "failed",
+  Completed = "completed",
+}
+
+/**
+ * An answer the run filled into a field
+ * @interface RecordedAnswer
+ */
+export interface RecordedAnswer {
+  /** The progress bar step the field is on */
+  step: string;
+  /** The label of the field */
+  label: string;
+  /** The value shown in the field after filling */
+  value: string;
+}
+
+/**
+ * Everything needed to pick an autofill run up again after a reload
+ * @interface RunRecord
+ */
+export interface RunRecord {
+  /** The application the run belongs to, see `getApplicationUrl` */
+  url: string;
+  status: RunStatus;
+  /** The progress bar step the run is on */
+  step: string;
+  /** Labels of the fields completed on the current step, skipped on resume */
+  completedFields: string[];
+  /** How many times the current step failed validation */
+  retries: number;
+  /** The automation id of the next button once it is known */
+  saveButtonId: string | null;
+  /** How the next button was last found, see `resolveNextButton` */
+  navigationStrategy?: NavigationStrategy;
+  /** Percentage of the current step's fields processed */
+  progressOnCurrentPage: number;
+  /** Every answer given so far */
+  answers: RecordedAnswer[];
+  /** The answers flagged on the Review step, once the run reached it */
+  discrepancies?: Discrepancy[];
+  /** Where the run halted when it was stopped or failed */
+  haltedAt?: string;
+  /** Time of the last update in milliseconds since the epoch */
+  updatedAt: number;
+}
+
+/**
+ * Outcome of a run sent from the content script to the side panel
+ * @interface RunResponse
+ */
+export interface RunResponse {
+  status: "done" | "stopped" | "error";
+  /** Where the run halted when it was stopped */
+  location?: string;
+  /** The error message when the run failed */
+  error?: string;
+  /** The answers flagged on the Review step, when the run reached it */
+  discrepancies?: Discrepancy[];
+  /** Whether the run ended on the step the user submits from */
+  readyToSubmit?: boolean;
+}
+
+/** Storage key of the latest run */
+const RUN_RECORD_KEY = "runRecord";
+
+/** Runs interrupted by a reload within this window resume automatically */
+const AUTO_RESUME_WINDOW_MS = 10 * 60 * 1000;
+
+/**
+ * Reduces a page URL to the application it belongs to, ignoring the query
+ * and hash Workday adds while navigating.
+ * @param url - The page URL
+ * @returns The origin and path of the URL
+ */
+export function getApplicationUrl(url: string): string {
+  try {
+    const { origin, pathname } = new URL(url);
+    return `${origin}${pathname.replace(/\/+$/, "")}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Creates the record of a new run.
+ * @param url - The application URL
+ * @param step - The progress bar step the run starts on
+ */
+export function createRunRecord(url: string, step: string): RunRecord {
+  return {
+    url,
+    status: RunStatus.Running,
+    step,
+    completedFields: [],
+    retries: 0,
+    saveButtonId: null,
+    progressOnCurrentPage: 0,
+    answers: [],
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Loads the latest run record.
+ * @param url - When given, only a record of this application is returned
+ * @returns The record, or null when there is none
+ */
+export async function loadRunRecord(url?: string): Promise<RunRecord | null> {
+  const savedRecord = await getData(RUN_RECORD_KEY);
+  if (!savedRecord) {
+    return null;
+  }
+
+  try {
+    const record = JSON.parse(savedRecord) as RunRecord;
+    return !url || record.url === url ? record : null;
+  } catch (error) {
+    console.error("Discarding an unreadable run record:", error);
+    await clearData(RUN_RECORD_KEY);
+    return null;
+  }
+}
+
+/**
+ * Persists the run record, stamping the update time.
+ * @param record - The record to save
+ */
+export async function saveRunRecord(record: RunRecord): Promise<void> {
+  record.updatedAt = Date.now();
+  await saveData(RUN_RECORD_KEY, JSON.stringify(record));
+}
+
+/**
+ * @returns Whether the run can be continued
+ */
+export function isResumable(record: RunRecord): boolean {
+  return record.status !== RunStatus.Completed;
+}
+
+/**
+ * @returns Whether the run was interrupted by a reload recently enough to be
+ * continued without asking
+ */
+export function shouldAutoResume(record: RunRecord): boolean {
+  return (
+    record.status === RunStatus.Running &&
+    Date.now() - record.updatedAt < AUTO_RESUME_WINDOW_MS
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * A named JSON schema describing the structured output expected from the model
+ * @interface StructuredSchema
+ */
+export interface StructuredSchema {
+  /** Name reported to the server, must match ^[a-zA-Z0-9_-]+$ */
+  name: string;
+  /** The JSON schema the response has to conform to */
+  schema: Record<string, unknown>;
+}
+
+/**
+ * Builds a string property, constrained to the given values when there are any.
+ * @param values - The allowed values (e.g. optionIds scraped from the DOM)
+ * @returns A JSON schema for the property
+ */
+export function enumProperty(values: string[]): Record<string, unknown> {
+  const uniqueValues = Array.from(new Set(values.filter(Boolean)));
+  return uniqueValues.length
+    ? { type: "string", enum: uniqueValues }
+    : { type: "string" };
+}
+
+/**
+ * Builds the `{ reason, <idKey> }` schema used by the option based handlers.
+ * @param name - Schema name
+ * @param idKey - The key the selected id is returned under (e.g. "optionId")
+ * @param optionIds - The ids the model is allowed to choose from
+ * @returns The structured schema
+ */
+export function createOptionSchema(
+  name: string,
+  idKey: string,
+  optionIds: string[]
+): StructuredSchema {
+  return {
+    name,
+    schema: {
+      type: "object",
+      properties: {
+        reason: { type: "string" },
+        [idKey]: enumProperty(optionIds),
+      },
+      required: ["reason", idKey],
+      additionalProperties: false,
+    },
+  };
+}
+
+/**
+ * Schema for the `{ reason, value }` responses of free text fields
+ */
+export const textValueSchema: StructuredSchema = {
+  name: "text_value",
+  schema: {
+    type: "object",
+    properties: {
+      reason: { type: "string" },
+      value: { type: "string" },
+    },
+    required: ["reason", "value"],
+    additionalProperties: false,
+  },
+};
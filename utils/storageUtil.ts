@@ -14,3 +14,19 @@ export const getData = async (key: string) => {
 export const clearData = async (key: string) => {
   await storage.removeItem(`local:${key}`);
 };
+
+/**
+ * Parses a JSON value from storage, falling back when it is missing or broken
+ */
+export async function getJsonData<T>(key: string, fallback: T): Promise<T> {
+  const savedData = await getData(key);
+  if (!savedData) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(savedData) as T;
+  } catch (error) {
+    console.error(`Discarding unreadable ${key}:`, error);
+    return fallback;
+  }
+}
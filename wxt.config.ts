@@ -9,7 +9,8 @@ export default defineConfig({
     description:
       "An AI-powered assistant that automatically fills out job applications on Workday sites.",
     version: "1.0.2",
-    permissions: ["storage", "tabs"],
+    // Stored resume and cover letter files can exceed the default quota
+    permissions: ["storage", "unlimitedStorage", "tabs"],
     action: {
       default_title: "WXT",
     },